@@ -1,33 +1,63 @@
 import * as z from "zod";
-import { getTaskFromPath, isTask } from "./utils.ts";
+import { getTaskFromPath } from "./utils.ts";
+import { getPinnedRank, getTaskId } from "./model/branch.ts";
 import { basename } from "node:path";
+import type { WorktreeStatus } from "./service/git.ts";
+import { Screen } from "./ui/screen.ts";
+import type { KeyEvent } from "./keys.ts";
+import { getBindings, type Binding } from "./keybindings.ts";
 
 type Status = {
   type: "success" | "error" | "info" | "confirmation";
   message: string;
 };
 
-type Page =
+export type Page =
   | "idle"
   | "update"
   | "token"
   | "delete-worktree"
   | "delete-branch"
+  | "delete-force"
   | "add"
-  | "edit-task";
+  | "pick-task"
+  | "cleanup"
+  | "outbox"
+  | "edit-task"
+  | "save-task";
 
-type Action = {
+// Shown over the current page, which keeps its state underneath
+export type Overlay = "help" | "palette";
+
+// Where actions are defined and bound in the `keybindings` config
+type Scope = Page | Overlay | "global";
+
+export type Action = {
   label: string;
-  shortcut: string;
+  keys: Binding[];
   hidden?: boolean;
   disabled?: () => boolean;
   callback: () => false | any;
 };
 
-type AddAction = Omit<Action, "label" | "shortcut"> & {
-  shortcut?: Action["shortcut"];
+export type AddAction = Omit<Action, "label" | "keys"> & {
+  // Default keys, the first letter of the label when not set, the
+  // `keybindings` config replaces them
+  shortcut?: string | string[];
 };
 
+export const Priorities = ["urgent", "high", "normal", "low"] as const;
+
+// Fields loaded when editing a task, not every tracker has all of them
+export const TaskDetailsSchema = z.object({
+  description: z.string(),
+  // Usernames, logins or emails, as the tracker identifies people
+  assignees: z.array(z.string()),
+  priority: z.enum(Priorities).nullable(),
+  // YYYY-MM-DD
+  dueDate: z.string().nullable(),
+});
+
 export const TaskSchema = z.interface({
   id: z.string(),
   name: z.string(),
@@ -39,20 +69,34 @@ export const TaskSchema = z.interface({
     id: z.string(),
     name: z.string(),
   }),
+  // Last details loaded or saved
+  "details?": TaskDetailsSchema,
 });
 
 export type Task = z.output<typeof TaskSchema>;
+export type TaskDetails = z.output<typeof TaskDetailsSchema>;
+export type Priority = (typeof Priorities)[number];
 
 export const App: {
   interval: NodeJS.Timeout | null;
+  gitStatusInterval: NodeJS.Timeout | null;
   page: Page;
-  mode: "idle" | "search";
+  // Searching is split between typing and going through the results
+  mode: "idle" | "search" | "results";
   selected: number;
   selectNext(): void;
   selectPrevious(): void;
   selectFirst(): void;
   selectLast(): void;
+  selectBy(count: number): void;
   getSelectedBranch(): string;
+  marked: Record<string, boolean>;
+  _markAnchor: number | null;
+  isMarked(branch: string): boolean;
+  toggleMarked(): void;
+  markRange(): void;
+  clearMarked(): void;
+  getTargetBranches(): string[];
   status: Status | null;
   setStatus(
     type: Status["type"],
@@ -63,6 +107,13 @@ export const App: {
   token: string | null;
   readonly paths: string[];
   setPaths(paths: string[]): void;
+  // Worktree name to the branch checked out in it
+  branches: Record<string, string>;
+  getBranch(name: string): string;
+  getTaskId(name: string): string | null;
+  getTask(name: string): Task | undefined;
+  getNameByTaskId(taskId: string): string;
+  // Paths shown in the list, the results while searching
   filteredPaths: string[];
   readonly taskIds: string[];
   tasks: Record<string, Task>;
@@ -74,31 +125,31 @@ export const App: {
     timeout?: number,
   ): void;
   clearTaskStatus(taskId?: string): void;
+  gitStatus: Record<string, WorktreeStatus>;
   actions: Action[];
-  addActions(actions: Record<string, AddAction>): void;
+  // Keys of a chord pressed so far
+  chord: string[];
+  createActions(scope: Scope, actions: Record<string, AddAction>): Action[];
+  addActions(scope: Scope, actions: Record<string, AddAction>): void;
   setupActions(pages: Record<Page, Record<string, AddAction>>): void;
+  overlay: Overlay | null;
   _lastPage: Page | null;
   toPage(page: Page): void;
   previousPage(): void;
   debug?: string;
-  // Key state tracking
-  _keyStates: Record<string, boolean>;
-  _keyJustPressed: Record<string, boolean>;
-  _keyJustReleased: Record<string, boolean>;
-  keyPressed(key: string): boolean;
+  // Key being handled, pages consume it while rendering the frame drawn for
+  // it and it is dropped afterwards
+  key: KeyEvent | null;
   consumeKey(key: string, cb: () => void): void;
-  consumeAnyKey(cb: (key: string) => void): void;
-  keyJustPressed(key: string): boolean;
-  keyJustReleased(key: string): boolean;
-  updateKeyStates(): void;
-  setKeyState(key: string, pressed: boolean): void;
+  consumeAnyKey(cb: (key: KeyEvent) => void): void;
 } = {
   interval: null,
+  gitStatusInterval: null,
   page: "idle",
   mode: "idle",
   selected: 0,
   selectNext() {
-    this.selected = Math.min(this.paths.length - 1, this.selected + 1);
+    this.selected = Math.min(this.filteredPaths.length - 1, this.selected + 1);
   },
   selectPrevious() {
     this.selected = Math.max(0, this.selected - 1);
@@ -107,19 +158,60 @@ export const App: {
     this.selected = 0;
   },
   selectLast() {
-    this.selected = this.paths.length - 1;
+    this.selected = this.filteredPaths.length - 1;
+  },
+  selectBy(count) {
+    this.selected = Math.max(
+      0,
+      Math.min(this.filteredPaths.length - 1, this.selected + count),
+    );
   },
   getSelectedBranch() {
-    const path = this.paths[this.selected];
+    const path = this.filteredPaths[this.selected];
     if (!path) throw new Error("Unable to get selected path");
     return getTaskFromPath(path);
   },
+  marked: {},
+  _markAnchor: null,
+  isMarked(branch) {
+    return !!this.marked[branch];
+  },
+  toggleMarked() {
+    const branch = this.getSelectedBranch();
+    if (this.marked[branch]) {
+      delete this.marked[branch];
+    } else {
+      this.marked[branch] = true;
+    }
+    this._markAnchor = this.selected;
+  },
+  // Indexes are positions in the list shown, not in every path
+  markRange() {
+    const anchor = this._markAnchor ?? this.selected;
+    const start = Math.min(anchor, this.selected);
+    const end = Math.max(anchor, this.selected);
+    for (const path of this.filteredPaths.slice(start, end + 1)) {
+      this.marked[getTaskFromPath(path)] = true;
+    }
+    this._markAnchor = this.selected;
+  },
+  clearMarked() {
+    this.marked = {};
+    this._markAnchor = null;
+  },
+  getTargetBranches() {
+    const marked = this.paths
+      .map(getTaskFromPath)
+      .filter((branch) => this.marked[branch]);
+    return marked.length ? marked : [this.getSelectedBranch()];
+  },
   status: null,
   setStatus(type, message, timeout) {
     this.status = {
       type,
       message,
     };
+    Screen.requestRender();
 
     if (timeout) {
       setTimeout(() => this.clearStatus(), timeout);
@@ -127,44 +219,41 @@ export const App: {
   },
   clearStatus() {
     this.status = null;
+    Screen.requestRender();
   },
   token: null,
   paths: [],
   filteredPaths: [],
   setPaths(paths: string[]) {
     // @ts-ignore
-    this.paths = paths.toSorted((_a, _b) => {
-      const a = basename(_a);
-      const b = basename(_b);
-
-      if (a === "master") {
-        return -1;
-      }
-
-      if (/solo-.+$/.test(a) || /mob-.+$/.test(a)) {
-        if (b === "master") {
-          return 0;
-        }
-        return -1;
-      }
-
-      if (b.endsWith("master")) {
-        return 1;
-      }
-
-      if (/solo-.+$/.test(b) || /mob-.+$/.test(b)) {
-        return 1;
-      }
-
-      return 0;
-    });
+    this.paths = paths.toSorted(
+      (a, b) =>
+        getPinnedRank(this.getBranch(basename(a))) -
+        getPinnedRank(this.getBranch(basename(b))),
+    );
+    this.filteredPaths = this.paths;
     // @ts-ignore
     this.taskIds = paths
-      .filter((path) => {
-        const taskId = getTaskFromPath(path);
-        return isTask(taskId);
-      })
-      .map(getTaskFromPath);
+      .map((path) => this.getTaskId(getTaskFromPath(path)))
+      .filter((taskId) => taskId != null);
+    Screen.requestRender();
+  },
+  branches: {},
+  getBranch(name) {
+    return this.branches[name] ?? name;
+  },
+  getTaskId(name) {
+    return getTaskId(this.getBranch(name));
+  },
+  getTask(name) {
+    const taskId = this.getTaskId(name);
+    return taskId ? this.tasks[taskId] : undefined;
+  },
+  getNameByTaskId(taskId) {
+    const path = this.paths.find(
+      (path) => this.getTaskId(getTaskFromPath(path)) === taskId,
+    );
+    return path ? getTaskFromPath(path) : taskId;
   },
   taskIds: [],
   tasks: {},
@@ -174,6 +263,7 @@ export const App: {
       type,
       message,
     };
+    Screen.requestRender();
     if (timeout) {
       setTimeout(() => this.clearTaskStatus(taskId), timeout);
     }
@@ -184,20 +274,23 @@ export const App: {
     } else {
       this.taskStatus = {};
     }
+    Screen.requestRender();
   },
+  gitStatus: {},
   actions: [],
-  addActions(actions: Record<string, AddAction>) {
-    for (const label in actions) {
-      const options = actions[label];
-
-      const shortcut = options.shortcut ?? label[0];
-
-      this.actions.push({
+  chord: [],
+  createActions(scope, actions) {
+    return Object.entries(actions).map(([label, { shortcut, ...options }]) => {
+      const defaults = [shortcut ?? label[0]].flat().map((key) => [key]);
+      return {
         ...options,
         label,
-        shortcut,
-      });
-    }
+        keys: getBindings(scope, label, defaults),
+      };
+    });
+  },
+  addActions(scope, actions) {
+    this.actions.push(...this.createActions(scope, actions));
   },
   setupActions(pages) {
     this.actions = [];
@@ -206,9 +299,10 @@ export const App: {
       if (App.page !== page) {
         continue;
       }
-      this.addActions(actions);
+      this.addActions(page as Page, actions);
     }
   },
+  overlay: null,
   _lastPage: null,
   toPage(page) {
     this._lastPage = this.page;
@@ -220,58 +314,21 @@ export const App: {
       this.toPage(last);
     }
   },
-  // Key state tracking
-  _keyStates: {},
-  _keyJustPressed: {},
-  _keyJustReleased: {},
-
-  keyPressed(key: string): boolean {
-    return !!this._keyStates[key];
-  },
+  key: null,
 
   consumeKey(key, cb) {
-    if (this._keyStates[key]) {
-      this._keyStates[key] = false;
+    if (this.key?.sequence === key) {
+      this.key = null;
       cb();
     }
   },
 
   consumeAnyKey(cb) {
-    const key = Object.keys(this._keyStates).find(
-      (key) => this._keyStates[key],
-    );
+    const key = this.key;
     if (!key) {
       return;
     }
-    this._keyStates[key] = false;
+    this.key = null;
     cb(key);
   },
-
-  keyJustPressed(key: string): boolean {
-    return !!this._keyJustPressed[key];
-  },
-
-  keyJustReleased(key: string): boolean {
-    return !!this._keyJustReleased[key];
-  },
-
-  updateKeyStates(): void {
-    // Clear the "just" states at the beginning of each frame
-    this._keyJustPressed = {};
-    this._keyJustReleased = {};
-  },
-
-  setKeyState(key: string, pressed: boolean): void {
-    // If the key state is changing from not pressed to pressed
-    if (pressed && !this._keyStates[key]) {
-      this._keyJustPressed[key] = true;
-    }
-    // If the key state is changing from pressed to not pressed
-    else if (!pressed && this._keyStates[key]) {
-      this._keyJustReleased[key] = true;
-    }
-
-    // Update the current state
-    this._keyStates[key] = pressed;
-  },
 };
@@ -0,0 +1,455 @@
+import { parseArgs, type ParseArgsConfig } from "node:util";
+import chalk from "chalk";
+import { App, type Task } from "./app.ts";
+import { Files } from "./files.ts";
+import { Git, type WorktreeStatus } from "./service/git.ts";
+import { Tracker } from "./service/tracker.ts";
+import { SHELLS, ShellIntegration } from "./service/shell.ts";
+import { Outbox } from "./model/outbox.ts";
+import { getTaskId } from "./model/branch.ts";
+import {
+  getInProgressStatus,
+  getStatusByLabel,
+  loadTasks,
+  loadToken,
+  saveTasks,
+  updateTaskStatus,
+} from "./model/task.ts";
+import { createWorktree, getRiskWarnings } from "./model/worktree.ts";
+import { getTaskFromPath, isInside } from "./utils.ts";
+
+type Result = {
+  data: unknown;
+  text: string;
+  // Partial failures still print the result but exit with 1
+  failed?: boolean;
+};
+
+type Command = {
+  usage: string;
+  description: string;
+  options?: ParseArgsConfig["options"];
+  run(
+    positionals: string[],
+    values: Record<string, string | boolean | undefined>,
+  ): Promise<Result>;
+};
+
+type WorktreeEntry = {
+  name: string;
+  path: string;
+  branch: string | null;
+};
+
+async function loadWorktrees(): Promise<void> {
+  const worktrees = await Git.listWorktrees();
+  for (const worktree of worktrees) {
+    if (worktree.branch) {
+      App.branches[getTaskFromPath(worktree.path)] = worktree.branch;
+    }
+  }
+  App.setPaths(worktrees.map((worktree) => worktree.path));
+  App.tasks = loadTasks();
+}
+
+function toEntry(path: string): WorktreeEntry {
+  const name = getTaskFromPath(path);
+  return { name, path, branch: App.branches[name] ?? null };
+}
+
+// Worktrees are referenced by their folder name or the checked out branch
+function findWorktree(target: string): WorktreeEntry {
+  const path = App.paths.find((path) => {
+    const name = getTaskFromPath(path);
+    return name === target || App.branches[name] === target;
+  });
+  if (!path) {
+    throw new Error(`worktree "${target}" not found`);
+  }
+  return toEntry(path);
+}
+
+function setupTracker(): void {
+  const token = loadToken();
+  if (token) {
+    Tracker.setToken(token);
+  }
+}
+
+function isTrackerReady(): boolean {
+  return !Tracker.tokenEnv || !!loadToken();
+}
+
+function requireTracker(): void {
+  if (!isTrackerReady()) {
+    throw new Error(`Missing ${Tracker.tokenEnv}`);
+  }
+  setupTracker();
+}
+
+function requireArgs(positionals: string[], count: number, usage: string) {
+  if (positionals.length < count) {
+    throw new Error(`usage: gw ${usage}`);
+  }
+}
+
+function formatTable(rows: string[][]): string {
+  const sizes = rows[0]?.map((_, column) =>
+    Math.max(...rows.map((row) => row[column].length)),
+  );
+  return rows
+    .map((row) =>
+      row
+        .map((cell, column) => cell.padEnd(sizes?.[column] ?? 0))
+        .join("  ")
+        .trimEnd(),
+    )
+    .join("\n");
+}
+
+const Commands: Record<string, Command> = {
+  list: {
+    usage: "list",
+    description: "list worktrees with their task and git status",
+    async run() {
+      await loadWorktrees();
+
+      const statuses = await Promise.all(
+        App.paths.map((path) =>
+          Git.getStatus(path).catch((): WorktreeStatus | null => null),
+        ),
+      );
+      const worktrees = App.paths.map((path, index) => ({
+        ...toEntry(path),
+        task: App.getTask(getTaskFromPath(path)) ?? null,
+        status: statuses[index],
+      }));
+
+      return {
+        data: worktrees,
+        text: formatTable(
+          worktrees.map((worktree) => [
+            worktree.name,
+            worktree.branch ?? "",
+            worktree.task?.status.label ?? "",
+            worktree.task?.name ?? "",
+          ]),
+        ),
+      };
+    },
+  },
+
+  add: {
+    usage: "add <branch> [--create] [--path <path>] [--commit <commit>]",
+    description: "add a worktree, --create makes a new branch from origin",
+    options: {
+      create: { type: "boolean", default: false },
+      path: { type: "string" },
+      commit: { type: "string" },
+    },
+    async run(positionals, values) {
+      requireArgs(positionals, 1, this.usage);
+      const [branch] = positionals;
+      await loadWorktrees();
+
+      const path = (values.path as string | undefined) || branch;
+      const commit = (values.commit as string | undefined) || branch;
+      const createNew = !!values.create;
+
+      if (App.paths.map(getTaskFromPath).includes(getTaskFromPath(path))) {
+        throw new Error("worktree already exists");
+      }
+
+      const worktreePath = await createWorktree({
+        branch,
+        path,
+        commit,
+        createNew,
+      });
+      const warnings: string[] = [];
+
+      const taskId = getTaskId(branch);
+      let task: Task | null = null;
+
+      if (taskId && isTrackerReady()) {
+        setupTracker();
+        try {
+          task = await Tracker.getTask(taskId);
+          if (createNew) {
+            const inProgress = await getInProgressStatus(task);
+            if (inProgress) {
+              task = await updateTaskStatus(task, inProgress);
+            }
+          }
+        } catch (e) {
+          warnings.push(`${Tracker.name} error: ${e}`);
+          if (createNew) {
+            Outbox.enqueue(
+              { update: { id: taskId }, inProgress: true },
+              `${e}`,
+            );
+          }
+        }
+      } else if (taskId && createNew) {
+        Outbox.enqueue(
+          { update: { id: taskId }, inProgress: true },
+          "task not loaded",
+        );
+      }
+
+      if (task) {
+        App.tasks[task.id] = task;
+        saveTasks(App.tasks);
+      }
+
+      return {
+        data: {
+          name: getTaskFromPath(worktreePath),
+          path: worktreePath,
+          branch,
+          task,
+          warnings,
+        },
+        text: [`worktree ${branch} added at ${worktreePath}`, ...warnings].join(
+          "\n",
+        ),
+      };
+    },
+  },
+
+  rm: {
+    usage: "rm <branch> [--branch] [--force]",
+    description:
+      "remove a worktree, --branch also deletes the local and remote branch",
+    options: {
+      branch: { type: "boolean", default: false },
+      force: { type: "boolean", default: false },
+    },
+    async run(positionals, values) {
+      requireArgs(positionals, 1, this.usage);
+      const [target] = positionals;
+      await loadWorktrees();
+
+      const worktree = findWorktree(target);
+      const ref = App.getBranch(worktree.name);
+      const removeBranch = !!values.branch;
+      const force = !!values.force;
+
+      // A failed check could hide unsaved work, it takes --force like them
+      const risks = await Git.getDeleteRisks(worktree.path, ref).catch((e) => {
+        Files.error.append(`[rm-check]: ${e}`);
+        return null;
+      });
+      const warnings = risks
+        ? [
+            ...getRiskWarnings(risks, "worktree"),
+            ...(removeBranch ? getRiskWarnings(risks, "branch") : []),
+          ]
+        : ["unable to check for unsaved work"];
+
+      if (warnings.length && !force) {
+        throw new Error(
+          `work will be lost (${warnings.join(", ")}), use --force to delete anyway`,
+        );
+      }
+
+      // Later git commands can't run from inside the removed folder
+      const fallback = App.paths.find((path) => path !== worktree.path);
+      if (fallback && isInside(process.cwd(), worktree.path)) {
+        process.chdir(fallback);
+      }
+
+      await Git.removeWorktree(worktree.path, force);
+
+      const taskId = App.getTaskId(worktree.name);
+      if (taskId && App.tasks[taskId]) {
+        delete App.tasks[taskId];
+        saveTasks(App.tasks);
+      }
+
+      // Branches that were never pushed or are gone only exist locally
+      const upstream = removeBranch ? await Git.getUpstream(ref) : null;
+      const removeRemote = upstream?.ref === `origin/${ref}` && !upstream.gone;
+
+      if (removeBranch) {
+        await Promise.all([
+          Git.deleteBranch(ref),
+          removeRemote ? Git.deleteRemoteBranch(ref) : null,
+        ]);
+      }
+
+      return {
+        data: {
+          ...worktree,
+          branchDeleted: removeBranch,
+          remoteDeleted: removeRemote,
+          warnings,
+        },
+        text: removeBranch
+          ? `worktree ${worktree.name} and branch ${ref} deleted`
+          : `worktree ${worktree.name} deleted`,
+      };
+    },
+  },
+
+  "task refresh": {
+    usage: "task refresh [<id>...]",
+    description: "fetch tasks from the tracker, all worktree tasks by default",
+    async run(taskIds) {
+      requireTracker();
+      await loadWorktrees();
+
+      const ids = taskIds.length ? taskIds : App.taskIds;
+      const results = await Promise.allSettled(
+        ids.map((taskId) => Tracker.getTask(taskId)),
+      );
+
+      const updated: Task[] = [];
+      const failed: { id: string; error: string }[] = [];
+
+      results.forEach((result, index) => {
+        if (result.status === "fulfilled") {
+          App.tasks[result.value.id] = result.value;
+          updated.push(result.value);
+        } else {
+          failed.push({ id: ids[index], error: String(result.reason) });
+        }
+      });
+
+      if (updated.length) {
+        saveTasks(App.tasks);
+      }
+
+      return {
+        data: { updated, failed },
+        text: [
+          ...updated.map((task) => `${task.id}  ${task.status.label}`),
+          ...failed.map((task) => chalk.red(`${task.id}  ${task.error}`)),
+        ].join("\n"),
+        failed: failed.length > 0,
+      };
+    },
+  },
+
+  "task status": {
+    usage: "task status <id> <label>",
+    description: "move a task to the status with the given label",
+    async run(positionals) {
+      requireArgs(positionals, 2, this.usage);
+      const [taskId, label] = positionals;
+      requireTracker();
+
+      const tasks = loadTasks();
+      const task = tasks[taskId] ?? (await Tracker.getTask(taskId));
+      const status = await getStatusByLabel(task, label);
+
+      tasks[taskId] = await updateTaskStatus(task, status);
+      saveTasks(tasks);
+
+      return {
+        data: tasks[taskId],
+        text: `${taskId} moved to "${status.label}"`,
+      };
+    },
+  },
+
+  cd: {
+    usage: "cd <branch>",
+    description: "print the path of a worktree, cd into it with `gw init`",
+    async run(positionals, values) {
+      requireArgs(positionals, 1, this.usage);
+      const [target] = positionals;
+      await loadWorktrees();
+
+      const worktree = findWorktree(target);
+      if (!values.json) {
+        await ShellIntegration.open(worktree.path, "cd");
+      }
+      return { data: worktree, text: worktree.path };
+    },
+  },
+
+  init: {
+    usage: `init <${SHELLS.join("|")}>`,
+    description: "print the shell function that wraps gw",
+    async run(positionals) {
+      requireArgs(positionals, 1, this.usage);
+      const [shell] = positionals;
+      if (!ShellIntegration.isShell(shell)) {
+        throw new Error(`usage: gw ${this.usage}`);
+      }
+
+      const script = ShellIntegration.getInit(shell);
+      return { data: { shell, script }, text: script.trimEnd() };
+    },
+  },
+};
+
+function getUsage(): string {
+  const rows = Object.values(Commands).map((command) => [
+    `  gw ${command.usage}`,
+    chalk.dim(command.description),
+  ]);
+  return [
+    "usage: gw [command] [--json]",
+    "",
+    "Without a command the interactive app is started.",
+    "",
+    formatTable(rows),
+  ].join("\n");
+}
+
+/**
+ * Runs a non-interactive command and resolves with the exit code. With
+ * `--json` both results and errors are written as JSON to stdout.
+ */
+export async function runCommand(
+  command: string,
+  args: string[],
+): Promise<number> {
+  const json = args.includes("--json");
+
+  if (command === "help" || command === "--help" || command === "-h") {
+    process.stdout.write(getUsage() + "\n");
+    return 0;
+  }
+
+  let name = command;
+  if (!Commands[name] && args[0] && Commands[`${command} ${args[0]}`]) {
+    name = `${command} ${args.shift()}`;
+  }
+
+  const definition = Commands[name];
+  if (!definition) {
+    process.stderr.write(`unknown command "${command}"\n\n${getUsage()}\n`);
+    return 1;
+  }
+
+  try {
+    const { positionals, values } = parseArgs({
+      args,
+      allowPositionals: true,
+      options: {
+        ...definition.options,
+        json: { type: "boolean", default: false },
+      },
+    });
+
+    Outbox.load();
+    const result = await definition.run(positionals, values);
+
+    const text = json ? JSON.stringify(result.data, null, 2) : result.text;
+    if (text) {
+      process.stdout.write(text + "\n");
+    }
+    return result.failed ? 1 : 0;
+  } catch (e: any) {
+    const message = e?.stderr?.trim() || e?.message || String(e);
+    if (json) {
+      process.stdout.write(JSON.stringify({ error: message }, null, 2) + "\n");
+    } else {
+      process.stderr.write(chalk.red(`error: ${message}`) + "\n");
+    }
+    return 1;
+  }
+}
@@ -1,9 +1,13 @@
 import { FileStore } from "./service/file-store.ts";
 
 export const Files = {
+  // Tasks of the worktrees, cached from the tracker
   tasks: new FileStore("tasks.yaml"),
+  // Every task of the local tracker
+  localTasks: new FileStore("local-tasks.yaml"),
   statuses: new FileStore("statuses.yaml"),
   config: new FileStore("config.yaml"),
+  outbox: new FileStore("outbox.yaml"),
   token: new FileStore("token"),
   error: new FileStore("error-log", { memory: false }),
   debug: new FileStore("debug", { memory: false }),
@@ -1,44 +1,106 @@
-import { stdin as input, stdout as output } from "node:process";
+import { stdout as output } from "node:process";
+import { existsSync } from "node:fs";
 import { exec, execSync, spawn } from "node:child_process";
-import { existsSync, writeFileSync } from "node:fs";
-import { dirname, join as pathJoin } from "node:path";
 import { promisify } from "node:util";
 import chalk from "chalk";
-import yaml from "yaml";
-import { Clickup } from "./service/clickup.ts";
+import * as z from "zod";
+import { Tracker, type TaskUpdate } from "./service/tracker.ts";
 import { FileStore } from "./service/file-store.ts";
 import { Jobs } from "./service/jobs.ts";
-import { App, TaskSchema } from "./app.ts";
-import { getTaskFromPath, isTask, runOnce } from "./utils.ts";
-import { renderRow } from "./layout.ts";
+import { isTransientError } from "./service/errors.ts";
+import {
+  Git,
+  type DeleteRisks,
+  type Ref,
+  type Worktree,
+  type WorktreeDetails,
+  type WorktreeStatus,
+} from "./service/git.ts";
+import {
+  App,
+  Priorities,
+  type Action,
+  type AddAction,
+  type Overlay,
+  type Page,
+  type Priority,
+  type Task,
+  type TaskDetails,
+} from "./app.ts";
+import {
+  diffLines,
+  formatAge,
+  fuzzyMatch,
+  fuzzyScore,
+  getColumns,
+  highlight,
+  getTaskFromPath,
+  isMain,
+  runOnce,
+  truncate,
+  wrap,
+  type FuzzyMatch,
+} from "./utils.ts";
+import { renderBranch } from "./model/branch.ts";
+import { renderRow, type Child, type RenderOptions } from "./layout.ts";
 import { Form } from "./ui/form.ts";
-import { Keys } from "./keys.ts";
+import { Screen } from "./ui/screen.ts";
+import { Viewport } from "./ui/viewport.ts";
+import { KeyDecoder, Keys, type KeyEvent } from "./keys.ts";
+import { checkKeybindings, formatBinding, isPrefix } from "./keybindings.ts";
 import { Files } from "./files.ts";
-import { loadOrFetchStatuses } from "./model/status.ts";
+import {
+  loadOrFetchStatuses,
+  StatusTypes,
+  type Status,
+  type StatusType,
+} from "./model/status.ts";
+import {
+  applyTaskUpdate,
+  getInProgressStatus,
+  loadTasks,
+  loadToken,
+  saveTasks,
+  updateTaskStatus,
+} from "./model/task.ts";
+import {
+  createWorktree,
+  getCleanupConfig,
+  getRiskWarnings,
+  getWorktreeDestination,
+  type AddWorktree,
+} from "./model/worktree.ts";
+import { runCommand } from "./cli.ts";
+import { ShellIntegration, type OpenMode } from "./service/shell.ts";
+import { Outbox, type Operation } from "./model/outbox.ts";
 import { setTimeout } from "node:timers/promises";
 
 const execAsync = promisify(exec);
 
-const HIDE_CURSOR = "\u001B[?25l";
-const SHOW_CURSOR = "\u001B[?25h";
+const GIT_STATUS_INTERVAL = 30 * 1000;
+// Redraws happen on input and state changes, this only catches up with time
+// based state like ages and outbox retries
+const TICK_INTERVAL = 1000;
 
-const KEY_TEXT: Record<string, string> = {
-  [Keys.ENTER]: "enter",
-  [Keys.ESC]: "esc",
-  [Keys.ARROW_UP]: "↑",
-  [Keys.ARROW_DOWN]: "↓",
-  [Keys.ARROW_LEFT]: "←",
-  [Keys.ARROW_RIGHT]: "→",
-};
-
-const SearchForm = new Form.Container();
+const SearchForm = new Form.Container<{ search: string }>();
 const SearchInput = new Form.Input().setName("search").setSize(30);
 
 function renderHeader() {
   const name = chalk.bold("Worktree");
-  const page = App.page !== "idle" ? chalk.dim("/" + App.page) : "";
+  const page = [App.page !== "idle" && App.page, App.overlay]
+    .filter(Boolean)
+    .map((name) => chalk.dim("/" + name))
+    .join("");
+  const pending = Outbox.operations.length;
 
-  renderRow([{ text: " " + name + page, size: 30 }]);
+  renderRow([
+    { text: " " + name + page, size: 30 },
+    {
+      text: chalk.yellow(`⟳ ${pending} pending sync `),
+      hidden: !pending,
+      align: "end",
+    },
+  ]);
 
   renderRow([
     {
@@ -48,41 +110,141 @@ function renderHeader() {
   ]);
 
   renderHorizontalLine();
-  output.write("\n");
+  Screen.write("\n");
 }
 
 function renderHorizontalLine() {
-  output.write(chalk.dim.gray("─".repeat(output.columns)));
+  Screen.write(chalk.dim.gray("─".repeat(Screen.columns)));
 }
 
-const DeleteForm = new Form.Container();
+const DeleteForm = new Form.Container<{
+  worktree: boolean;
+  branch: boolean;
+  force: boolean;
+}>();
 const DeleteWorktreeInput = new Form.Checkbox().setName("worktree");
 const DeleteBranchInput = new Form.Checkbox().setName("branch");
-DeleteForm.add(DeleteWorktreeInput).add(DeleteBranchInput);
+const DeleteForceInput = new Form.Checkbox().setName("force");
+DeleteForm.add(DeleteWorktreeInput)
+  .add(DeleteBranchInput)
+  .add(DeleteForceInput);
 
-function setupActions() {
-  const searching = App.mode === "search";
+const DeleteChecks: Record<string, DeleteRisks | null> = {};
+let DeleteTargets: string[] = [];
+
+// Moving through the worktree list, shared by the pages showing it
+function getListActions(): Record<string, AddAction> {
+  const typing = App.mode === "search";
+
+  return {
+    down: {
+      hidden: true,
+      shortcut: "j",
+      disabled: () => typing,
+      callback: () => App.selectNext(),
+    },
+    up: {
+      hidden: true,
+      shortcut: "k",
+      disabled: () => typing,
+      callback: () => App.selectPrevious(),
+    },
+    // Also work while typing a search
+    next: {
+      hidden: true,
+      shortcut: [Keys.ARROW_DOWN, Keys.CTRL_N],
+      callback: () => App.selectNext(),
+    },
+    previous: {
+      hidden: true,
+      shortcut: [Keys.ARROW_UP, Keys.CTRL_P],
+      callback: () => App.selectPrevious(),
+    },
+    first: {
+      hidden: true,
+      shortcut: ["K", Keys.SHIFT_ARROW_UP],
+      disabled: () => typing,
+      callback: () => App.selectFirst(),
+    },
+    last: {
+      hidden: true,
+      shortcut: ["J", Keys.SHIFT_ARROW_DOWN],
+      disabled: () => typing,
+      callback: () => App.selectLast(),
+    },
+    "page down": {
+      hidden: true,
+      shortcut: [Keys.PAGE_DOWN, Keys.CTRL_F],
+      disabled: () => typing,
+      callback: () => App.selectBy(BranchesViewport.visible),
+    },
+    "page up": {
+      hidden: true,
+      shortcut: [Keys.PAGE_UP, Keys.CTRL_B],
+      disabled: () => typing,
+      callback: () => App.selectBy(-BranchesViewport.visible),
+    },
+    "half down": {
+      hidden: true,
+      shortcut: Keys.CTRL_D,
+      disabled: () => typing,
+      callback: () => App.selectBy(Math.ceil(BranchesViewport.visible / 2)),
+    },
+    "half up": {
+      hidden: true,
+      shortcut: Keys.CTRL_U,
+      disabled: () => typing,
+      callback: () => App.selectBy(-Math.ceil(BranchesViewport.visible / 2)),
+    },
+    dismiss: {
+      hidden: true,
+      shortcut: "x",
+      disabled: () => App.mode !== "idle" || !App.status,
+      callback: () => App.clearStatus(),
+    },
+  };
+}
 
-  App.setupActions({
+function getPageActions(): Record<Page, Record<string, AddAction>> {
+  // Typing a search or going through its results
+  const searching = App.mode !== "idle";
+
+  return {
     idle: {
+      ...getListActions(),
       add: {
         disabled: () => searching,
-        callback: () => App.toPage("add"),
+        callback: () => {
+          loadRefs();
+          App.toPage("add");
+        },
       },
       delete: {
         disabled: () => searching,
         callback: deleteConfirmation,
       },
+      cleanup: {
+        shortcut: "C",
+        disabled: () => searching,
+        callback: () => {
+          scanCleanupCandidates();
+          App.toPage("cleanup");
+        },
+      },
       copy: {
         disabled: () => searching,
         callback: () => {
-          const branch = App.getSelectedBranch();
+          const branches = App.getTargetBranches();
           try {
-            spawn("xclip", ["-sel", "c"]).stdin.end(branch, () => {
-              App.setTaskStatus(branch, "success", "copied.", 2000);
+            spawn("xclip", ["-sel", "c"]).stdin.end(branches.join("\n"), () => {
+              for (const branch of branches) {
+                App.setTaskStatus(branch, "success", "copied.", 2000);
+              }
             });
           } catch (e) {
-            App.setTaskStatus(branch, "error", `unable to copy ${e}`);
+            for (const branch of branches) {
+              App.setTaskStatus(branch, "error", `unable to copy ${e}`);
+            }
           }
         },
       },
@@ -90,10 +252,10 @@ function setupActions() {
         hidden: true,
         shortcut: Keys.ENTER,
         callback: () => {
-          if (App.mode === "search") {
+          if (searching) {
             const selected = App.filteredPaths[App.selected];
             SearchForm.clear();
-            App.selected = App.paths.indexOf(selected);
+            App.selected = Math.max(0, App.paths.indexOf(selected));
             App.filteredPaths = App.paths;
             App.mode = "idle";
           } else {
@@ -101,13 +263,23 @@ function setupActions() {
           }
         },
       },
+      window: {
+        hidden: !ShellIntegration.isTmux(),
+        disabled: () => searching || !ShellIntegration.isTmux(),
+        callback: () => enterProject("tmux-window"),
+      },
+      pane: {
+        hidden: !ShellIntegration.isTmux(),
+        disabled: () => searching || !ShellIntegration.isTmux(),
+        callback: () => enterProject("tmux-pane"),
+      },
       // "pull request": {
       //   disabled: () => {
       //     if (searching) {
       //       return true;
       //     }
       //     const branch = App.getSelectedBranch();
-      //     return branch === "master" || isTask(branch);
+      //     return branch === "master" || App.getTaskId(branch) != null;
       //   },
       //   callback: () =>
       //     exec(
@@ -118,54 +290,103 @@ function setupActions() {
       //     ),
       // },
       view: {
-        disabled: () => searching || !isTask(App.getSelectedBranch()),
-        callback: () =>
-          exec(`open ${Clickup.getTaskUrl(App.getSelectedBranch())}`),
+        disabled: () => searching || !App.getTaskId(App.getSelectedBranch()),
+        callback: () => {
+          const taskId = App.getTaskId(App.getSelectedBranch());
+          if (taskId) exec(`open ${Tracker.getTaskUrl(taskId)}`);
+        },
       },
       update: {
-        hidden: !App.token,
-        disabled: () => searching || !App.token,
+        hidden: !isTrackerReady(),
+        disabled: () => searching || !isTrackerReady(),
         callback: () => App.toPage("update"),
       },
+      outbox: {
+        hidden: !Outbox.operations.length,
+        disabled: () => searching || !Outbox.operations.length,
+        callback: () => {
+          OutboxPage.selected = 0;
+          App.toPage("outbox");
+        },
+      },
+      refresh: {
+        disabled: () => searching || Jobs.has("git-status"),
+        callback: () => refreshGitStatus(),
+      },
       edit: {
-        hidden: !App.token,
+        hidden: !isTrackerReady(),
         disabled: () =>
-          searching || !App.token || !isTask(App.getSelectedBranch()),
-        callback: () => App.toPage("edit-task"),
+          searching || !isTrackerReady() || !getEditTargets().length,
+        callback: () => {
+          const [task] = getEditTargets();
+          EditTask.Form.value.name = task.name;
+          App.toPage("edit-task");
+        },
       },
       quit: {
+        disabled: isTyping,
         callback() {
           quit();
         },
       },
       token: {
-        hidden: !!App.token,
-        disabled: () => searching || !!App.token,
+        hidden: isTrackerReady(),
+        disabled: () => searching || isTrackerReady(),
         callback: () => App.toPage("token"),
       },
       back: {
         shortcut: Keys.ESC,
         hidden: true,
         callback: () => {
-          if (App.mode === "search") {
+          if (searching) {
             SearchForm.clear();
+            App.filteredPaths = App.paths;
             App.mode = "idle";
+          } else {
+            App.clearMarked();
           }
         },
       },
-      "/": {
+      mark: {
+        hidden: true,
+        shortcut: Keys.SPACE,
+        disabled: () => searching,
+        callback: () => App.toggleMarked(),
+      },
+      range: {
         hidden: true,
+        shortcut: "V",
         disabled: () => searching,
+        callback: () => App.markRange(),
+      },
+      info: {
+        shortcut: "i",
+        disabled: () => App.mode === "search" || !getDetailsPanelSize(),
+        callback: () => (DetailsPanel.open = !DetailsPanel.open),
+      },
+      search: {
+        hidden: true,
+        shortcut: "/",
+        disabled: () => App.mode === "search",
         callback: () => (App.mode = "search"),
       },
+      results: {
+        hidden: true,
+        shortcut: Keys.TAB,
+        disabled: () => App.mode !== "search",
+        callback: () => (App.mode = "results"),
+      },
     },
     update: {
+      ...getListActions(),
       all: {
-        disabled: () => !App.token,
+        disabled: () => !isTrackerReady(),
         callback: () => refetchAll().then(() => App.toPage("idle")),
       },
       selected: {
-        disabled: () => !App.token || !isTask(App.getSelectedBranch()),
+        disabled: () =>
+          !isTrackerReady() ||
+          !App.getTargetBranches().some((name) => App.getTaskId(name)),
         callback: () => refetchSelected().then(() => App.toPage("idle")),
       },
       back: {
@@ -176,9 +397,9 @@ function setupActions() {
     token: {
       "set token": {
         shortcut: Keys.ENTER,
-        disabled: () => !TokenForm.value["token"],
+        disabled: () => !TokenForm.value.token,
         callback: () => {
-          App.token = TokenForm.value["token"] as string;
+          App.token = TokenForm.value.token;
           App.toPage("idle");
           TokenForm.reset();
           saveTokenFile();
@@ -195,114 +416,67 @@ function setupActions() {
     },
     "delete-worktree": {
       yes: {
+        disabled: () =>
+          !DeleteTargets.every((branch) => branch in DeleteChecks),
         callback: () => {
           DeleteForm.value.worktree = true;
-          const branch = App.getSelectedBranch();
-          App.setTaskStatus(branch, "confirmation", "delete branch?");
-          App.toPage("delete-branch");
+          deleteBranchConfirmation();
         },
       },
       no: {
-        callback: () => {
-          DeleteForm.reset();
-          App.clearTaskStatus();
-          App.toPage("idle");
-        },
+        callback: deleteCancel,
       },
     },
     "delete-branch": {
       yes: {
         callback: () => {
           DeleteForm.value.branch = true;
-          deleteConfirmed();
+          deleteForceConfirmation();
         },
       },
       no: {
         callback: () => {
           DeleteForm.value.branch = false;
+          deleteForceConfirmation();
+        },
+      },
+    },
+    "delete-force": {
+      force: {
+        callback: () => {
+          DeleteForm.value.force = true;
           deleteConfirmed();
         },
       },
+      cancel: {
+        shortcut: Keys.ESC,
+        callback: deleteCancel,
+      },
     },
     add: {
       create: {
         shortcut: Keys.ENTER,
-        disabled: () => !AddForm.isValid(),
+        disabled: () => !AddForm.value.branch || !AddForm.isValid(),
         callback: () => {
-          const branch = AddForm.value.branch as string;
-          const path = (AddForm.value.path || branch) as string;
-          const commit = (AddForm.value.commit || branch) as string;
-          const createNew = !!AddForm.value.create;
-
+          const branch = AddForm.value.branch;
+          const path = AddForm.value.path || branch;
+          const commit = AddForm.value.commit || branch;
+          const createNew = AddForm.value.create;
+
+          branchInput.remember(branch);
+          pathInput.remember(AddForm.value.path);
+          commitInput.remember(AddForm.value.commit);
           AddForm.reset();
           App.toPage("idle");
-          App.setStatus("info", `adding worktree ${branch}...`);
-
-          Jobs.run(`add-${branch}`, async () => {
-            const errorLog = new FileStore("error-log");
-            try {
-              await setTimeout(500);
-
-              const defaultBranch =
-                (
-                  await execAsync("git remote show origin | grep HEAD")
-                ).stdout
-                  .replace("HEAD branch: ", "")
-                  .trim() || "master";
-              const isInsideWorktree = (
-                await execAsync("git rev-parse --is-inside-work-tree")
-              ).stdout.startsWith("true");
-
-              const commonDir = pathJoin(
-                isInsideWorktree ? ".." : ".",
-                "worktree-common",
-              );
-
-              const destination = pathJoin(
-                isInsideWorktree ? ".." : ".",
-                path,
-              );
-
-              await execAsync("git fetch --all");
-
-              await execAsync(
-                [
-                  "git worktree add",
-                  createNew ? `-b ${branch} ` : "",
-                  destination,
-                  createNew ? `origin/${defaultBranch}` : commit,
-                ].join(" "),
-              );
-              if (!createNew) {
-                await execAsync(
-                  `git branch --set-upstream-to=origin/${branch} ${branch} 2>/dev/null`,
-                );
-              }
-              if (existsSync(commonDir)) {
-                await execAsync(`cp -R ${commonDir}/ ${destination}`);
-              }
-              App.setStatus("success", `worktree ${branch} added`, 3000);
-              App.setPaths(
-                App.paths.concat(dirname(App.paths[0]) + "/" + path),
-              );
-              App.selected = Math.max(
-                0,
-                App.paths.findIndex((p) => p.includes(branch)),
-              );
-
-              if (isTask(path)) {
-                refetchTasks([path]);
-              }
-
-              if (isTask(branch) && createNew) {
-                Created[branch] = true;
-                UpdateInProgress.reset();
-              }
-            } catch (e: any) {
-              errorLog.append(e);
-              App.setStatus("error", `[worktree-add]: ${e}`);
-            }
-          });
+          addWorktree({ branch, path, commit, createNew });
+        },
+      },
+      "pick task": {
+        shortcut: Keys.CTRL_T,
+        disabled: () => !isTrackerReady(),
+        callback: () => {
+          loadTaskList();
+          App.toPage("pick-task");
         },
       },
       back: {
@@ -313,52 +487,232 @@ function setupActions() {
         },
       },
     },
+    "pick-task": {
+      create: {
+        shortcut: Keys.ENTER,
+        disabled: () => !getPickedTask(),
+        callback: () => {
+          const task = pickTask();
+          if (!task) return;
+          AddForm.reset();
+          App.toPage("idle");
+          const branch = renderBranch({ task_id: task.id, name: task.name });
+          addWorktree({
+            branch,
+            path: task.id,
+            commit: branch,
+            createNew: true,
+          });
+        },
+      },
+      fill: {
+        shortcut: Keys.TAB,
+        disabled: () => !getPickedTask(),
+        callback: () => {
+          const task = pickTask();
+          if (!task) return;
+          AddForm.value.branch = renderBranch({
+            task_id: task.id,
+            name: task.name,
+          });
+          AddForm.value.path = task.id;
+          AddForm.value.create = true;
+          App.toPage("add");
+        },
+      },
+      back: {
+        shortcut: Keys.ESC,
+        callback: () => {
+          PickTask.Form.reset();
+          App.toPage("add");
+        },
+      },
+    },
+    cleanup: {
+      remove: {
+        shortcut: Keys.ENTER,
+        disabled: () => !getSelectedCandidates().length,
+        callback: () => cleanupSelected(false),
+      },
+      force: {
+        shortcut: "f",
+        disabled: () => !getSelectedCandidates().some((c) => c.warnings.length),
+        callback: () => cleanupSelected(true),
+      },
+      all: {
+        disabled: () => !Cleanup.candidates.length,
+        callback: () => {
+          const checked = Cleanup.candidates.every(
+            (c) => Cleanup.Form.value[c.branch],
+          );
+          for (const candidate of Cleanup.candidates) {
+            Cleanup.Form.value[candidate.branch] = !checked;
+          }
+        },
+      },
+      back: {
+        shortcut: Keys.ESC,
+        callback: () => {
+          Cleanup.Form.reset();
+          App.toPage("idle");
+        },
+      },
+    },
+    outbox: {
+      retry: {
+        disabled: () => !getSelectedOperation(),
+        callback: () => {
+          const op = getSelectedOperation();
+          if (op) Outbox.retry(op.id);
+        },
+      },
+      "retry all": {
+        shortcut: "R",
+        disabled: () => !Outbox.operations.length,
+        callback: () => Outbox.retry(),
+      },
+      drop: {
+        disabled: () => !getSelectedOperation(),
+        callback: () => {
+          const op = getSelectedOperation();
+          if (!op) return;
+          Outbox.remove(op.id);
+          App.clearTaskStatus(App.getNameByTaskId(op.update.id));
+          OutboxPage.selected = Math.max(
+            0,
+            Math.min(OutboxPage.selected, Outbox.operations.length - 1),
+          );
+        },
+      },
+      back: {
+        shortcut: Keys.ESC,
+        callback: () => App.toPage("idle"),
+      },
+    },
     "edit-task": {
       update: {
         shortcut: Keys.ENTER,
-        disabled: () => !UpdateStatus.Form.value.status,
+        // Enter picks from an expanded list and breaks description lines
+        disabled: () =>
+          !EditTask.Form.value.status ||
+          isEditListOpen() ||
+          EditTask.Description.focused ||
+          !EditTask.Form.isValid(),
         callback: () => {
-          const task = App.tasks[App.getSelectedBranch()];
-          if (!task) return;
-
-          const status = UpdateStatus.Status.getSelectedOption();
-          if (!status) return;
-
-          App.setStatus("info", "updating task...");
-          Clickup.updateTask({
-            id: task.id,
-            statusLabel: status.label,
-          })
-            .then(() => {
-              App.tasks[task.id] = {
-                ...task,
-                status,
-              };
-              saveTasksFile();
-              App.setStatus("success", "task updated!", 3000);
-            })
-            .catch((e) => {
-              App.setStatus("error", `unable to update task: ${e}`);
-            });
+          EditTask.updates = getTaskUpdates(getEditTargets());
+          if (!EditTask.updates.some(hasChanges)) {
+            App.setStatus("info", "nothing to change", 3000);
+            return;
+          }
+          App.toPage("save-task");
         },
       },
       back: {
         shortcut: Keys.ESC,
+        disabled: isEditListOpen,
         callback: () => {
-          UpdateStatus.Form.reset();
+          resetEditTask();
           App.toPage("idle");
         },
       },
     },
-  });
+    "save-task": {
+      save: {
+        shortcut: Keys.ENTER,
+        callback: () => {
+          saveTaskUpdates(EditTask.updates);
+          resetEditTask();
+          App.toPage("idle");
+        },
+      },
+      back: {
+        shortcut: Keys.ESC,
+        callback: () => App.toPage("edit-task"),
+      },
+    },
+  };
+}
 
-  App.addActions({
-    quit: {
-      hidden: true,
-      disabled: () => AddForm.hasFocus(),
-      callback: quit,
+// Keys typed into a form are text, not shortcuts
+function isTyping(): boolean {
+  return (
+    App.mode === "search" ||
+    TokenForm.hasFocus() ||
+    AddForm.hasFocus() ||
+    PickTask.Form.hasFocus() ||
+    (App.page === "edit-task" && EditTask.Form.hasFocus())
+  );
+}
+
+// Available on every page
+const GlobalActions: Record<string, AddAction> = {
+  quit: {
+    hidden: true,
+    disabled: isTyping,
+    callback: () => quit(),
+  },
+  help: {
+    hidden: true,
+    shortcut: "?",
+    disabled: isTyping,
+    callback: () => openOverlay("help"),
+  },
+  palette: {
+    hidden: true,
+    shortcut: ":",
+    disabled: isTyping,
+    callback: () => openOverlay("palette"),
+  },
+};
+
+const OverlayActions: Record<Overlay, Record<string, AddAction>> = {
+  help: {
+    close: {
+      shortcut: [Keys.ESC, "?"],
+      callback: closeOverlay,
     },
-  });
+  },
+  palette: {
+    run: {
+      shortcut: Keys.ENTER,
+      disabled: () => !getPaletteEntries()[Palette.selected],
+      callback: runPaletteEntry,
+    },
+    close: {
+      shortcut: Keys.ESC,
+      callback: closeOverlay,
+    },
+  },
+};
+
+function setupActions() {
+  if (App.overlay) {
+    App.actions = App.createActions(App.overlay, OverlayActions[App.overlay]);
+    return;
+  }
+  App.setupActions(getPageActions());
+  App.addActions("global", GlobalActions);
+}
+
+function getKeybindingErrors(): string[] {
+  try {
+    const global = App.createActions("global", GlobalActions);
+    const sections: Record<string, Action[]> = { global };
+    const screens: Record<string, Action[]> = {};
+
+    for (const [page, actions] of Object.entries(getPageActions())) {
+      sections[page] = App.createActions(page as Page, actions);
+      screens[page] = [...sections[page], ...global];
+    }
+    for (const [overlay, actions] of Object.entries(OverlayActions)) {
+      sections[overlay] = App.createActions(overlay as Overlay, actions);
+      screens[overlay] = sections[overlay];
+    }
+
+    return checkKeybindings(sections, screens);
+  } catch (e: any) {
+    return [e.message];
+  }
 }
 
 function getActions() {
@@ -371,7 +725,7 @@ function getActions() {
       return true;
     })
     .map((action) => {
-      const shortcut = KEY_TEXT[action.shortcut] || action.shortcut;
+      const shortcut = action.keys.map(formatBinding).join("/");
       const disabled = action.disabled?.() === true;
 
       return [
@@ -383,9 +737,25 @@ function getActions() {
   return actions.join(chalk.dim("  "));
 }
 
+// Rows taken by renderStatus(), kept free below lists
+function getStatusHeight(): number {
+  if (App.mode !== "idle") {
+    return 1;
+  }
+  return App.status ? 3 : 0;
+}
+
 function renderStatus() {
   if (App.mode === "search") {
-    SearchForm.add(SearchInput).update().render();
+    SearchForm.render();
+    return;
+  }
+
+  // The query stays while going through the results
+  if (App.mode === "results") {
+    Screen.write(" ");
+    SearchInput.blur().render();
+    Screen.write("\n");
     return;
   }
 
@@ -395,10 +765,10 @@ function renderStatus() {
 
   const format = getFormatFromType(App.status.type);
 
-  output.write("\n");
-  output.write(" " + format(App.status.message));
-  output.write("\n");
-  output.write("\n");
+  Screen.write("\n");
+  Screen.write(" " + format(App.status.message));
+  Screen.write("\n");
+  Screen.write("\n");
 }
 
 function getFormatFromType(type: NonNullable<(typeof App)["status"]>["type"]) {
@@ -411,185 +781,1588 @@ function getFormatFromType(type: NonNullable<(typeof App)["status"]>["type"]) {
         : chalk.dim;
 }
 
-function renderBranches() {
-  const search = SearchForm.value.search as string;
+const GIT_STATUS_COLUMNS = {
+  changes: 12,
+  sync: 9,
+  age: 5,
+};
 
-  App.filteredPaths = App.paths;
+function getGitStatusColumns(path: string) {
+  const status = App.gitStatus[path];
 
-  if (search) {
-    App.selected = 0;
-    App.filteredPaths = App.paths.filter((path) =>
-      getTaskFromPath(path).includes(search),
-    );
+  if (!status) {
+    return [
+      { text: chalk.dim("…"), size: GIT_STATUS_COLUMNS.changes },
+      { text: "", size: GIT_STATUS_COLUMNS.sync },
+      { text: "", size: GIT_STATUS_COLUMNS.age },
+    ];
   }
 
-  for (let i = 0; i < App.filteredPaths.length; i++) {
-    const path = App.filteredPaths[i];
-    const branch = getTaskFromPath(path);
-    const status = App.taskStatus[branch];
-    const task = App.tasks[branch];
+  const changes = [
+    status.staged ? chalk.green(`+${status.staged}`) : "",
+    status.dirty ? chalk.yellow(`~${status.dirty}`) : "",
+    status.untracked ? chalk.dim(`?${status.untracked}`) : "",
+  ].filter(Boolean);
+
+  const sync = !status.upstream
+    ? chalk.dim("local")
+    : [
+        status.ahead ? chalk.cyan(`↑${status.ahead}`) : "",
+        status.behind ? chalk.magenta(`↓${status.behind}`) : "",
+      ]
+        .filter(Boolean)
+        .join(" ");
+
+  return [
+    {
+      text: changes.length ? changes.join(" ") : chalk.dim("clean"),
+      size: GIT_STATUS_COLUMNS.changes,
+    },
+    { text: sync, size: GIT_STATUS_COLUMNS.sync },
+    {
+      text: status.lastCommit ? chalk.dim(formatAge(status.lastCommit)) : "",
+      size: GIT_STATUS_COLUMNS.age,
+    },
+  ];
+}
 
-    const isDeleting = App.page.startsWith("delete");
-    const isSelected = App.selected === i;
+const BranchesViewport = new Viewport();
 
-    const branchText = isSelected
-      ? chalk.yellow(`[${branch}]`)
-      : isDeleting
-        ? chalk.dim(` ${branch} `)
-        : ` ${branch} `;
+type SearchMatch = FuzzyMatch & {
+  field: "branch" | "name" | "status" | "list";
+};
 
-    let nameText = "";
-    if (status) {
-      const format = getFormatFromType(status.type);
-      nameText = format(`${status.message}`);
+// Best match of each search result, to highlight it
+let SearchMatches = new Map<string, SearchMatch>();
 
-      if (isSelected && status.type === "confirmation") {
-        nameText += " " + getActions();
+/**
+ * Paths matching the query on the branch or the task name, status or list,
+ * best matches first.
+ */
+function searchPaths(query: string): [string, SearchMatch][] {
+  const results: [string, SearchMatch][] = [];
+
+  for (const path of App.paths) {
+    const branch = getTaskFromPath(path);
+    const task = App.getTask(branch);
+    const fields = {
+      branch,
+      name: task?.name,
+      status: task?.status.label,
+      list: task?.list.name,
+    };
+
+    let best: SearchMatch | null = null;
+    for (const [field, text] of Object.entries(fields)) {
+      const match = text ? fuzzyMatch(text, query) : null;
+      if (match && (!best || match.score > best.score)) {
+        best = { ...match, field: field as SearchMatch["field"] };
       }
-    } else if (task) {
-      nameText = task.name ? `${task.name}` : chalk.dim(`missing name`);
     }
+    if (best) {
+      results.push([path, best]);
+    }
+  }
 
-    renderRow(
-      [
-        { text: branchText, size: 30 },
-        {
-          text: nameText,
-          hidden: isDeleting && !isSelected,
-          align: "start",
-        },
-      ],
-      {
-        mode: "truncate",
-      },
-    );
+  return results.sort(([, a], [, b]) => b.score - a.score);
+}
 
-    if (task) {
-      renderRow([
-        { text: "", size: 30 },
-        {
-          text: chalk.dim(task.status.label),
-          hidden: !task || isDeleting,
-        },
-      ]);
+function updateSearch() {
+  if (App.mode === "idle") {
+    SearchMatches.clear();
+    App.filteredPaths = App.paths;
+    return;
+  }
+
+  // Read before the list is drawn so it shows the key just typed
+  if (App.mode === "search") {
+    SearchForm.add(SearchInput).update();
+  }
+
+  const selected = App.filteredPaths[App.selected];
+  const results = searchPaths(SearchForm.value.search ?? "");
+
+  SearchMatches = new Map(results);
+  App.filteredPaths = results.map(([path]) => path);
+  // Stays on the same worktree while it is still in the results
+  App.selected = Math.max(0, App.filteredPaths.indexOf(selected));
+}
+
+function getHighlighted(
+  text: string,
+  match: SearchMatch | undefined,
+  field: SearchMatch["field"],
+): string {
+  return match?.field === field ? highlight(text, match.indices) : text;
+}
+
+const DetailsPanel = {
+  open: false,
+  // Details by worktree path, null when fetching them failed
+  details: {} as Record<string, WorktreeDetails | null>,
+  fetchedAt: {} as Record<string, number>,
+};
+
+const DETAILS_PANEL_SIZE = { min: 30, max: 60 };
+// Columns kept for the list, the panel doesn't fit narrower terminals
+const DETAILS_LIST_SIZE = 70;
+const DETAILS_FILES = 5;
+
+// Columns of the details panel, 0 when it doesn't fit
+function getDetailsPanelSize(): number {
+  const size = Math.min(
+    DETAILS_PANEL_SIZE.max,
+    getColumns() - DETAILS_LIST_SIZE,
+  );
+  return size >= DETAILS_PANEL_SIZE.min ? size : 0;
+}
+
+// Fetches again once the git status is newer, following its refreshes
+function loadDetails(path: string) {
+  const fetchedAt = DetailsPanel.fetchedAt[path];
+  if (fetchedAt && fetchedAt >= (App.gitStatus[path]?.updatedAt ?? 0)) {
+    return;
+  }
+
+  DetailsPanel.fetchedAt[path] = Date.now();
+  Jobs.run(`details-${path}`, async () => {
+    try {
+      DetailsPanel.details[path] = await Git.getDetails(path);
+    } catch (e) {
+      DetailsPanel.details[path] = null;
+      Files.error.append(`[details]: ${e}`);
     }
+  });
+}
+
+/**
+ * Lines of the panel for the selected worktree, bordered and truncated to
+ * `size`. Parts still loading show an ellipsis.
+ */
+function getDetailsPanel(size: number): string[] {
+  const path = App.filteredPaths[App.selected];
+  if (!path) {
+    return [];
+  }
+  loadDetails(path);
+
+  const branch = getTaskFromPath(path);
+  const status = App.gitStatus[path];
+  const details = DetailsPanel.details[path];
+  const taskId = App.getTaskId(branch);
+  const task = App.getTask(branch);
+  const width = size - 2;
+  const label = (text: string) => chalk.dim(text.padEnd(9));
+  const loading = chalk.dim("…");
+
+  const lines = [chalk.bold(branch), chalk.dim(path), ""];
+
+  if (details === null) {
+    lines.push(chalk.red("unable to read the worktree"));
+  } else {
+    const head = details?.commits[0];
+    lines.push(
+      label("head") +
+        (!details
+          ? loading
+          : head
+            ? chalk.yellow(head.hash) + " " + head.subject
+            : chalk.dim("no commits")),
+    );
+  }
+
+  lines.push(
+    label("upstream") +
+      (!status
+        ? loading
+        : status.upstream
+          ? `${status.upstream} ${chalk.cyan(`↑${status.ahead}`)} ${chalk.magenta(`↓${status.behind}`)}`
+          : chalk.dim("none")),
+  );
+
+  if (details) {
+    const { files } = details;
+    lines.push(
+      label("changes") +
+        (files.length ? `${files.length} files` : chalk.dim("clean")),
+    );
+    for (const file of files.slice(0, DETAILS_FILES)) {
+      lines.push(`  ${chalk.yellow(file.status)} ${file.path}`);
+    }
+    if (files.length > DETAILS_FILES) {
+      lines.push(chalk.dim(`  … ${files.length - DETAILS_FILES} more`));
+    }
+  }
+
+  if (taskId) {
+    lines.push("", label("task") + taskId);
+    if (task?.name) {
+      lines.push(...wrap(task.name, width));
+      lines.push(label("status") + task.status.label);
+      lines.push(label("list") + task.list.name);
+    } else {
+      lines.push(chalk.dim("not fetched"));
+    }
+    lines.push(chalk.dim(Tracker.getTaskUrl(taskId)));
+  }
+
+  if (details?.commits.length) {
+    lines.push("", chalk.dim("commits"));
+    for (const commit of details.commits) {
+      lines.push(
+        `${chalk.yellow(commit.hash)} ${chalk.dim(formatAge(commit.timestamp).padEnd(4))} ${commit.subject}`,
+      );
+    }
+  }
+
+  return lines.map((line) => chalk.dim("│ ") + truncate(line, width));
+}
+
+function renderBranches() {
+  updateSearch();
+
+  // Tasks show their status on a second row, the line below the list and
+  // the status take the rest
+  const size = Screen.rows - Screen.line - 1 - getStatusHeight();
+  const { start, end } = BranchesViewport.update(
+    App.filteredPaths.map((path) =>
+      App.getTask(getTaskFromPath(path)) ? 2 : 1,
+    ),
+    App.selected,
+    size,
+  );
+
+  // The panel takes the right of each row, next to the list
+  const panelSize =
+    DetailsPanel.open && App.page === "idle" ? getDetailsPanelSize() : 0;
+  const panel = panelSize ? getDetailsPanel(panelSize).slice(0, size) : [];
+  const row = (children: Child[], options?: RenderOptions) =>
+    renderRow(
+      panelSize
+        ? [...children, { text: panel.shift() ?? "", size: panelSize }]
+        : children,
+      options,
+    );
+
+  const top = BranchesViewport.getTop();
+  if (top != null) {
+    row([{ text: top }]);
+  }
+
+  for (let i = start; i < end; i++) {
+    const path = App.filteredPaths[i];
+    const branch = getTaskFromPath(path);
+    const status = App.taskStatus[branch];
+    const task = App.getTask(branch);
+
+    const isDeleting = App.page.startsWith("delete");
+    const isSelected = App.selected === i;
+    const isMarked = App.isMarked(branch);
+    const match = SearchMatches.get(path);
+    const branchLabel = getHighlighted(branch, match, "branch");
+
+    const branchText = isSelected
+      ? chalk.yellow(`[${branchLabel}]`)
+      : isDeleting
+        ? chalk.dim(` ${branchLabel} `)
+        : ` ${branchLabel} `;
+
+    let nameText = "";
+    if (status) {
+      const format = getFormatFromType(status.type);
+      nameText = format(`${status.message}`);
+
+      if (isSelected && status.type === "confirmation") {
+        nameText += " " + getActions();
+      }
+    } else if (task) {
+      nameText = task.name
+        ? getHighlighted(task.name, match, "name")
+        : chalk.dim(`missing name`);
+    }
+
+    row(
+      [
+        { text: isMarked ? chalk.cyan(" ●") : "", size: 2 },
+        { text: branchText, size: 30 },
+        ...getGitStatusColumns(path),
+        {
+          text: nameText,
+          hidden: isDeleting && !isSelected && !DeleteTargets.includes(branch),
+          align: "start",
+        },
+      ],
+      {
+        mode: "truncate",
+      },
+    );
+
+    if (task) {
+      row([
+        {
+          text: "",
+          size:
+            32 +
+            GIT_STATUS_COLUMNS.changes +
+            GIT_STATUS_COLUMNS.sync +
+            GIT_STATUS_COLUMNS.age,
+        },
+        {
+          text: chalk.dim(
+            getHighlighted(task.status.label, match, "status") +
+              (match?.field === "list"
+                ? " · " + getHighlighted(task.list.name, match, "list")
+                : ""),
+          ),
+          hidden: !task || isDeleting,
+        },
+      ]);
+    }
+  }
+
+  const bottom = BranchesViewport.getBottom();
+  if (bottom != null) {
+    row([{ text: bottom }]);
+  }
+  while (panel.length) {
+    row([{ text: "" }]);
+  }
+}
+
+function loop() {
+  if (App.token) {
+    Tracker.setToken(App.token);
+  }
+
+  setupActions();
+
+  if (!isTrackerReady()) {
+    App.setStatus("error", `Missing ${Tracker.tokenEnv}`);
+  } else if (
+    Tracker.tokenEnv &&
+    App.status?.message?.includes(Tracker.tokenEnv)
+  ) {
+    App.clearStatus();
+  }
+
+  if (UpdateInProgress.canRun()) {
+    updateToInProgress();
+  }
+
+  syncOutbox();
+
+  render();
+}
+
+const TokenForm = new Form.Container<{ token: string }>();
+const TokenInput = new Form.Input()
+  .setName("token")
+  .setSize(30)
+  .setSecret(true);
+
+function renderToken() {
+  TokenForm.add(TokenInput).update().render();
+}
+
+const AddForm = new Form.Container<{
+  branch: string;
+  create: boolean;
+  path: string;
+  commit: string;
+}>();
+const branchInput = new Form.Autocomplete()
+  .setName("branch")
+  .setSize(15)
+  .setValidator(validateBranch);
+const pathInput = new Form.Input()
+  .setName("path")
+  .setSize(15)
+  .setValidator(validatePath);
+const commitInput = new Form.Autocomplete()
+  .setName("commit")
+  .setSize(15)
+  .setValidator(validateCommit);
+const createCheckbox = new Form.Checkbox().setName("create");
+
+const Created: Record<string, boolean> = {};
+
+// Refs offered in the add form
+const AddRefs = {
+  refs: [] as Ref[],
+};
+
+function loadRefs() {
+  Jobs.run("refs", async () => {
+    try {
+      AddRefs.refs = await Git.getRefs();
+    } catch (e) {
+      Files.error.append(`[refs]: ${e}`);
+    }
+
+    const branches = AddRefs.refs.filter(({ type }) => type === "branch");
+    // Remote branches are checked out by their name, without the remote
+    const remotes = AddRefs.refs
+      .filter(({ type }) => type === "remote")
+      .map(({ name }) => {
+        const [remote, ...branch] = name.split("/");
+        return { value: branch.join("/"), hint: remote };
+      })
+      .filter(({ value }) => !branches.some(({ name }) => name === value));
+
+    branchInput.setSuggestions([
+      ...branches.map(({ name }) => ({ value: name, hint: "local" })),
+      ...remotes,
+    ]);
+    commitInput.setSuggestions(
+      AddRefs.refs.map(({ name, type, subject }) => ({
+        value: name,
+        hint: subject ?? type,
+        keywords: subject,
+      })),
+    );
+  });
+}
+
+// Listed refs are known, others go through git
+function validateRef(ref: string): string | null | Promise<string | null> {
+  const known = AddRefs.refs.some(
+    ({ name, type }) =>
+      name === ref || (type === "remote" && name.endsWith(`/${ref}`)),
+  );
+  if (known) {
+    return null;
+  }
+  return Git.resolveRef(ref).then((resolves) =>
+    resolves ? null : "unknown ref",
+  );
+}
+
+// New branches start from the default branch, others check out the commit
+// or the branch itself
+function validateBranch(
+  branch: string,
+  { create, commit }: Record<string, string | boolean>,
+) {
+  if (!branch) {
+    return null;
+  }
+  if (!create) {
+    return commit ? null : validateRef(branch);
+  }
+  if (
+    AddRefs.refs.some(({ name, type }) => type === "branch" && name === branch)
+  ) {
+    return "branch already exists";
+  }
+  return Git.isValidBranchName(branch).then((valid) =>
+    valid ? null : "not a valid branch name",
+  );
+}
+
+// The path defaults to the branch
+function validatePath(
+  value: string,
+  { branch }: Record<string, string | boolean>,
+) {
+  const path = value || (branch as string);
+  if (!path) {
+    return null;
+  }
+  if (App.paths.map(getTaskFromPath).includes(path)) {
+    return "worktree already exists";
+  }
+  return getWorktreeDestination(path).then((destination) =>
+    existsSync(destination) ? "path already exists" : null,
+  );
+}
+
+function validateCommit(
+  commit: string,
+  { create }: Record<string, string | boolean>,
+) {
+  return !commit || create ? null : validateRef(commit);
+}
+
+function renderAdd() {
+  AddForm.add(branchInput, { newLine: false })
+    .add(createCheckbox)
+    .add(pathInput)
+    .add(commitInput)
+    .update();
+
+  pathInput.placeholder = branchInput.value;
+  commitInput.placeholder = branchInput.value;
+
+  AddForm.render();
+}
+
+function addWorktree({ branch, path, commit, createNew }: AddWorktree) {
+  App.setStatus("info", `adding worktree ${branch}...`);
+
+  Jobs.run(`add-${branch}`, async () => {
+    const errorLog = new FileStore("error-log");
+    try {
+      await setTimeout(500);
+
+      const worktreePath = await createWorktree({
+        branch,
+        path,
+        commit,
+        createNew,
+      });
+      App.setStatus("success", `worktree ${branch} added`, 3000);
+      App.branches[getTaskFromPath(worktreePath)] = branch;
+      App.setPaths(App.paths.concat(worktreePath));
+      App.selected = Math.max(0, App.paths.indexOf(worktreePath));
+
+      const taskId = App.getTaskId(getTaskFromPath(worktreePath));
+      if (taskId && !App.tasks[taskId]) {
+        refetchTasks([taskId]);
+      }
+
+      refreshGitStatus();
+
+      if (taskId && createNew) {
+        Created[taskId] = true;
+        UpdateInProgress.reset();
+      }
+    } catch (e: any) {
+      errorLog.append(e);
+      App.setStatus("error", `[worktree-add]: ${e}`);
+    }
+  });
+}
+
+const PickTask = {
+  Form: new Form.Container<{ filter: string }>(),
+  Filter: new Form.Input().setName("filter").setSize(30),
+  tasks: [] as Task[],
+  loaded: false,
+  selected: 0,
+};
+
+function loadTaskList() {
+  PickTask.selected = 0;
+
+  Jobs.run("task-list", async () => {
+    try {
+      PickTask.tasks = await Tracker.getTaskList();
+      PickTask.loaded = true;
+    } catch (e) {
+      Files.error.append(`[task-list]: ${e}`);
+      App.setStatus("error", `unable to load tasks: ${e}`);
+    }
+  });
+}
+
+function getPickableTasks(): Task[] {
+  const filter = PickTask.Form.value.filter ?? "";
+  const existing = App.taskIds;
+
+  return PickTask.tasks
+    .filter((task) => !existing.includes(task.id))
+    .map((task) => ({
+      task,
+      score: fuzzyScore(`${task.id} ${task.name} ${task.status.label}`, filter),
+    }))
+    .filter((result) => result.score != null)
+    .sort((a, b) => b.score! - a.score!)
+    .map((result) => result.task);
+}
+
+function getPickedTask(): Task | null {
+  return getPickableTasks()[PickTask.selected] ?? null;
+}
+
+function pickTask(): Task | null {
+  const task = getPickedTask();
+  if (!task) {
+    return null;
+  }
+
+  // Already known, no need to fetch it again after the worktree is added
+  App.tasks[task.id] = task;
+  saveTasksFile();
+  PickTask.Form.reset();
+  return task;
+}
+
+function renderPickTask() {
+  const tasks = getPickableTasks();
+
+  const selectNext = () => {
+    PickTask.selected = Math.min(tasks.length - 1, PickTask.selected + 1);
+  };
+  const selectPrevious = () => {
+    PickTask.selected = Math.max(0, PickTask.selected - 1);
+  };
+
+  // Consumed before the form, otherwise they are typed into the filter
+  App.consumeKey(Keys.ARROW_DOWN, selectNext);
+  App.consumeKey(Keys.CTRL_N, selectNext);
+  App.consumeKey(Keys.ARROW_UP, selectPrevious);
+  App.consumeKey(Keys.CTRL_P, selectPrevious);
+
+  const filter = PickTask.Form.value.filter;
+  PickTask.Form.add(PickTask.Filter).update();
+  if (PickTask.Form.value.filter !== filter) {
+    PickTask.selected = 0;
+  }
+  PickTask.Form.render();
+  renderHorizontalLine();
+
+  if (!PickTask.loaded) {
+    Screen.write(chalk.dim(" loading tasks...\n"));
+    return;
+  }
+
+  if (!tasks.length) {
+    Screen.write(chalk.dim(" no tasks found\n"));
+    return;
+  }
+
+  for (let i = 0; i < tasks.length; i++) {
+    const task = tasks[i];
+    const isSelected = PickTask.selected === i;
+
+    renderRow(
+      [
+        {
+          text: isSelected ? chalk.yellow(`[${task.id}]`) : ` ${task.id} `,
+          size: 20,
+        },
+        { text: task.name },
+        { text: chalk.dim(task.status.label), size: 20 },
+      ],
+      { mode: "truncate" },
+    );
+  }
+}
+
+type CleanupCandidate = {
+  path: string;
+  branch: string;
+  reasons: string[];
+  // Work that would be lost, removed only when forced
+  warnings: string[];
+  hasRemote: boolean;
+};
+
+const Cleanup = {
+  Form: new Form.Container(),
+  candidates: [] as CleanupCandidate[],
+  scanned: false,
+};
+
+function scanCleanupCandidates() {
+  Cleanup.Form.reset();
+  Cleanup.candidates = [];
+  Cleanup.scanned = false;
+
+  Jobs.run("cleanup-scan", async () => {
+    try {
+      await execAsync("git fetch --prune").catch((e) =>
+        Files.error.append(`[cleanup-fetch]: ${e}`),
+      );
+
+      const defaultBranch = await Git.getDefaultBranch();
+      const staleSince =
+        Date.now() - getCleanupConfig().stale_days * 24 * 60 * 60 * 1000;
+
+      const candidates = await Promise.all(
+        App.paths.map(async (path): Promise<CleanupCandidate | null> => {
+          const branch = getTaskFromPath(path);
+          const ref = App.getBranch(branch);
+          if (ref === defaultBranch) {
+            return null;
+          }
+
+          const [merged, upstream, lastCommit] = await Promise.all([
+            Git.isMerged(ref, `origin/${defaultBranch}`).catch(() => false),
+            Git.getUpstream(ref).catch(() => null),
+            Git.getLastCommit(path),
+          ]);
+
+          const reasons: string[] = [];
+          // Branches without upstream were never pushed, they are "merged"
+          // only because they don't have any commit yet
+          if (merged && upstream) {
+            reasons.push(`merged into origin/${defaultBranch}`);
+          }
+          if (upstream?.gone) {
+            reasons.push("upstream gone");
+          }
+          if (lastCommit && lastCommit < staleSince) {
+            reasons.push(`untouched for ${formatAge(lastCommit)}`);
+          }
+
+          if (!reasons.length) {
+            return null;
+          }
+
+          const risks = await Git.getDeleteRisks(path, ref).catch((e) => {
+            Files.error.append(`[cleanup-check]: ${e}`);
+            return null;
+          });
+          const warnings = risks
+            ? [
+                ...getRiskWarnings(risks, "worktree"),
+                ...getRiskWarnings(risks, "branch"),
+              ]
+            : ["unable to check for unsaved work"];
+
+          return {
+            path,
+            branch,
+            reasons,
+            warnings,
+            hasRemote: upstream?.ref === `origin/${ref}` && !upstream.gone,
+          };
+        }),
+      );
+
+      Cleanup.candidates = candidates.filter((c) => c != null);
+      for (const candidate of Cleanup.candidates) {
+        Cleanup.Form.add(
+          new Form.Checkbox()
+            .setName(candidate.branch)
+            .setHint(
+              withWarnings(candidate.reasons.join(", "), candidate.warnings),
+            ),
+        );
+      }
+    } catch (e) {
+      Files.error.append(`[cleanup-scan]: ${e}`);
+      App.setStatus("error", `unable to scan worktrees: ${e}`);
+    } finally {
+      Cleanup.scanned = true;
+    }
+  });
+}
+
+function renderCleanup() {
+  if (!Cleanup.scanned) {
+    Screen.write(chalk.dim(" scanning worktrees...\n"));
+    return;
+  }
+
+  if (!Cleanup.candidates.length) {
+    Screen.write(chalk.dim(" nothing to clean up\n"));
+    return;
+  }
+
+  App.consumeKey("j", () => Cleanup.Form.focusNext());
+  App.consumeKey("k", () => Cleanup.Form.focusPrevious());
+
+  Cleanup.Form.update().render();
+}
+
+function getSelectedCandidates(): CleanupCandidate[] {
+  if (!Cleanup.scanned) {
+    return [];
+  }
+  return Cleanup.candidates.filter(
+    (candidate) => Cleanup.Form.value[candidate.branch],
+  );
+}
+
+// Candidates with unsaved work are skipped unless forced
+function cleanupSelected(force: boolean) {
+  const candidates = getSelectedCandidates();
+  const selected = force
+    ? candidates
+    : candidates.filter((candidate) => !candidate.warnings.length);
+  const skipped = candidates.length - selected.length;
+
+  Cleanup.Form.reset();
+  App.toPage("idle");
+
+  for (const candidate of selected) {
+    App.setTaskStatus(candidate.branch, "info", "waiting for cleanup...");
+  }
+
+  Jobs.run("cleanup", async () => {
+    let removed = 0;
+
+    for (const candidate of selected) {
+      const success = await deleteWorktree(candidate.branch, {
+        worktree: true,
+        branch: true,
+        remote: candidate.hasRemote,
+        force,
+      });
+      if (success) {
+        removed++;
+      }
+    }
+
+    const message = `cleaned up ${removed} of ${selected.length} worktrees`;
+    App.setStatus(
+      removed === selected.length && !skipped ? "success" : "error",
+      skipped
+        ? `${message}, skipped ${skipped} with unsaved work (force to remove)`
+        : message,
+      3000,
+    );
+    refreshGitStatus();
+  });
+}
+
+const OutboxPage = {
+  selected: 0,
+};
+
+function getSelectedOperation(): Operation | null {
+  return Outbox.operations[OutboxPage.selected] ?? null;
+}
+
+function describeOperation(op: Operation): string {
+  if (op.inProgress) {
+    return "move to in progress";
+  }
+
+  const { update } = op;
+  return [
+    update.statusLabel ? `status: ${update.statusLabel}` : "",
+    update.name ? `name: ${update.name}` : "",
+    update.assignees ? `assignees: ${update.assignees.join(", ")}` : "",
+    update.priority !== undefined
+      ? `priority: ${update.priority ?? NO_PRIORITY}`
+      : "",
+    update.dueDate !== undefined ? `due: ${update.dueDate ?? "none"}` : "",
+    update.description !== undefined ? "description" : "",
+  ]
+    .filter(Boolean)
+    .join(", ");
+}
+
+function renderOutbox() {
+  if (!Outbox.operations.length) {
+    Screen.write(chalk.dim(" nothing to sync\n"));
+    return;
+  }
+
+  App.consumeKey("j", () => {
+    OutboxPage.selected = Math.min(
+      Outbox.operations.length - 1,
+      OutboxPage.selected + 1,
+    );
+  });
+  App.consumeKey("k", () => {
+    OutboxPage.selected = Math.max(0, OutboxPage.selected - 1);
+  });
+
+  const now = Date.now();
+
+  for (let i = 0; i < Outbox.operations.length; i++) {
+    const op = Outbox.operations[i];
+    const isSelected = OutboxPage.selected === i;
+    const running = Jobs.has(`outbox-${op.id}`);
+    const retryIn = Math.max(0, Math.ceil((op.nextAttempt - now) / 1000));
+
+    renderRow(
+      [
+        {
+          text: isSelected
+            ? chalk.yellow(`[${op.update.id}]`)
+            : ` ${op.update.id} `,
+          size: 20,
+        },
+        { text: describeOperation(op), size: 30 },
+        {
+          text: chalk.dim(
+            running
+              ? "syncing..."
+              : `attempt ${op.attempts}, retry in ${retryIn}s`,
+          ),
+          size: 28,
+        },
+        { text: op.error ? chalk.red(op.error) : "" },
+      ],
+      { mode: "truncate" },
+    );
+  }
+}
+
+type EditTaskForm = {
+  name: string;
+  status: string;
+  assignees: string;
+  priority: string;
+  due: string;
+  description: string;
+};
+
+const NO_PRIORITY = "none";
+
+const EditTask = {
+  Form: new Form.Container<EditTaskForm>(),
+  Name: new Form.Input()
+    .setName("name")
+    .setSize(30)
+    .setValidator(z.string().trim().min(1, "name can't be empty")),
+  Status: new Form.Select().setName("status").setMinSize(20),
+  Assignees: new Form.Input()
+    .setName("assignees")
+    .setSize(30)
+    .setPlaceholder("comma separated"),
+  Priority: new Form.Select()
+    .setName("priority")
+    .setMinSize(20)
+    .setOptions(
+      [NO_PRIORITY, ...Priorities].map((priority) => ({
+        id: priority,
+        label: priority,
+      })),
+    ),
+  Due: new Form.Input()
+    .setName("due")
+    .setSize(12)
+    .setPlaceholder("YYYY-MM-DD")
+    .setValidator(
+      z
+        .string()
+        .trim()
+        .refine(
+          (due) => !due || z.iso.date().safeParse(due).success,
+          "expected a date like 2026-01-31",
+        ),
+    ),
+  Description: new Form.TextArea()
+    .setName("description")
+    .setSize(50)
+    .setRows(5),
+  // Loaded when editing a single task, null until then
+  details: null as TaskDetails | null,
+  detailsFailed: false,
+  // Waiting for confirmation on the save page
+  updates: [] as TaskUpdate[],
+};
+
+// Chip colors of statuses the tracker doesn't color
+const STATUS_COLORS: Record<StatusType, string> = {
+  open: "#87909e",
+  custom: "#5f81ff",
+  done: "#6bc950",
+  closed: "#b660e0",
+};
+
+// Grouped by type, in the order of the workflow
+function getStatusOptions(statuses: Status[], current: string) {
+  const order = (status: Status) =>
+    status.type ? StatusTypes.indexOf(status.type) : StatusTypes.length;
+  return statuses
+    .toSorted((a, b) => order(a) - order(b))
+    .map((status) => ({
+      id: status.id,
+      label: status.label,
+      description: status.id === current ? "current" : undefined,
+      color:
+        status.color ?? (status.type ? STATUS_COLORS[status.type] : undefined),
+      group: status.type,
+    }));
+}
+
+function getEditTargets(): Task[] {
+  return App.getTargetBranches()
+    .map((branch) => App.getTask(branch))
+    .filter((task) => task != null);
+}
+
+function isEditListOpen(): boolean {
+  return EditTask.Status.expanded || EditTask.Priority.expanded;
+}
+
+function resetEditTask() {
+  EditTask.Form.reset();
+  EditTask.Form.initialValue = {};
+  // Tasks can be in lists with other statuses
+  EditTask.Status.setOptions([]);
+  EditTask.details = null;
+  EditTask.detailsFailed = false;
+  EditTask.updates = [];
+}
+
+function parseAssignees(assignees: string): string[] {
+  return assignees
+    .split(",")
+    .map((assignee) => assignee.trim())
+    .filter(Boolean);
+}
+
+function hasChanges({ id, ...changes }: TaskUpdate): boolean {
+  return Object.keys(changes).length > 0;
+}
+
+// Only the fields that differ from each task, the status for every task and
+// the rest when editing a single one
+function getTaskUpdates(tasks: Task[]): TaskUpdate[] {
+  const values = EditTask.Form.value;
+  const status = EditTask.Status.getSelectedOption();
+  const details = EditTask.details;
+  const edits = (field: keyof TaskDetails) =>
+    !!details && Tracker.details.includes(field);
+
+  return tasks.map((task) => {
+    const update: TaskUpdate = { id: task.id };
+    if (status && status.id !== task.status.id) {
+      update.statusLabel = status.label;
+    }
+    if (tasks.length > 1) {
+      return update;
+    }
+
+    const name = values.name.trim();
+    if (name && name !== task.name) {
+      update.name = name;
+    }
+
+    const assignees = parseAssignees(values.assignees);
+    if (
+      edits("assignees") &&
+      assignees.join(",") !== details!.assignees.join(",")
+    ) {
+      update.assignees = assignees;
+    }
+
+    const priority =
+      values.priority === NO_PRIORITY ? null : (values.priority as Priority);
+    if (edits("priority") && priority !== details!.priority) {
+      update.priority = priority;
+    }
+
+    const due = values.due.trim() || null;
+    if (edits("dueDate") && due !== details!.dueDate) {
+      update.dueDate = due;
+    }
+
+    if (edits("description") && values.description !== details!.description) {
+      update.description = values.description;
+    }
+
+    return update;
+  });
+}
+
+function saveTaskUpdates(updates: TaskUpdate[]) {
+  const option = EditTask.Status.getSelectedOption();
+  const status = option ? { id: option.id, label: option.label } : undefined;
+  const details = EditTask.details;
+
+  const saving = updates.filter(hasChanges).map((update) => {
+    const task = App.tasks[update.id];
+    const name = App.getNameByTaskId(update.id);
+    const saved = applyTaskUpdate(
+      { ...task, details: details ?? task.details },
+      update,
+      update.statusLabel ? status : undefined,
+    );
+
+    App.setTaskStatus(name, "info", "updating task...");
+    return Tracker.updateTask(update)
+      .then(() => {
+        App.tasks[task.id] = saved;
+        Outbox.trim(update);
+        App.setTaskStatus(name, "success", "task updated!", 3000);
+      })
+      .catch((e) => {
+        if (!isTransientError(e)) {
+          App.setTaskStatus(name, "error", `unable to update task: ${e}`);
+          throw e;
+        }
+        Outbox.enqueue(
+          { update, status: update.statusLabel ? status : undefined },
+          String(e),
+        );
+        App.setTaskStatus(
+          name,
+          "error",
+          `unable to update task, queued for sync: ${e}`,
+        );
+        throw e;
+      });
+  });
+
+  App.setStatus("info", "updating task...");
+  Promise.allSettled(saving).then((results) => {
+    saveTasksFile();
+    const failed = results.filter((r) => r.status === "rejected");
+    if (failed.length) {
+      const queued = failed.filter((r) => isTransientError(r.reason));
+      App.setStatus(
+        "error",
+        `unable to update ${failed.length} of ${saving.length} tasks` +
+          (queued.length ? `, ${queued.length} queued for sync` : ""),
+      );
+    } else {
+      App.setStatus("success", "task updated!", 3000);
+    }
+  });
+}
+
+function renderTaskHeader(tasks: Task[]) {
+  const [task] = tasks;
+  Screen.write(chalk.yellow(` ▓ ${task.name}\n`));
+  Screen.write(
+    ` ${chalk.yellow("▓")} ${task.id}  ${chalk.dim(task.status.label)}\n`,
+  );
+  if (tasks.length > 1) {
+    Screen.write(
+      ` ${chalk.yellow("▓")} ${chalk.dim(
+        `and ${tasks.length - 1} more: ${tasks
+          .slice(1)
+          .map((task) => task.id)
+          .join(", ")}`,
+      )}\n`,
+    );
+  }
+  renderHorizontalLine();
+}
+
+// Whether the page still edits only this task, loads finishing after
+// leaving the page or moving to another task are dropped
+function isEditingTask(task: Task): boolean {
+  const tasks = getEditTargets();
+  return (
+    (App.page === "edit-task" || App.page === "save-task") &&
+    tasks.length === 1 &&
+    tasks[0].id === task.id
+  );
+}
+
+function loadTaskDetails(task: Task) {
+  runOnce(`load-task-details-${task.id}`, (resolve) => {
+    Tracker.getTaskDetails(task.id)
+      .then((details) => {
+        if (!isEditingTask(task) || EditTask.details) {
+          return;
+        }
+        EditTask.details = details;
+        const values = {
+          assignees: details.assignees.join(", "),
+          priority: details.priority ?? NO_PRIORITY,
+          due: details.dueDate ?? "",
+          description: details.description,
+        };
+        Object.assign(EditTask.Form.initialValue, values);
+        Object.assign(EditTask.Form.value, values);
+        Screen.requestRender();
+      })
+      .catch((e) => {
+        if (!isEditingTask(task)) {
+          return;
+        }
+        EditTask.detailsFailed = true;
+        App.setStatus("error", `unable to load the task details: ${e}`);
+      })
+      .finally(resolve);
+  });
+}
+
+function renderEditTask() {
+  const tasks = getEditTargets();
+  const task = tasks[0];
+
+  if (!task) {
+    App.toPage("idle");
+    return;
+  }
+
+  if (!EditTask.Status.options.length) {
+    runOnce(`load-statuses-${task.id}`, (resolve) => {
+      loadOrFetchStatuses(task.list.id)
+        .then((statuses) => {
+          if (App.page !== "edit-task" || getEditTargets()[0]?.id !== task.id) {
+            return;
+          }
+          App.clearStatus();
+          EditTask.Status.setOptions(
+            getStatusOptions(statuses, task.status.id),
+          );
+          EditTask.Form.initialValue.status = task.status.id;
+        })
+        .catch((e) => {
+          App.setStatus("error", e);
+        })
+        .finally(resolve);
+    });
+  }
+
+  const single = tasks.length === 1;
+  if (single && !EditTask.details && !EditTask.detailsFailed) {
+    loadTaskDetails(task);
+  }
+
+  renderTaskHeader(tasks);
+
+  if (single) {
+    EditTask.Form.add(EditTask.Name);
+  }
+  EditTask.Form.add(EditTask.Status);
+
+  if (EditTask.details) {
+    const fields = Tracker.details;
+    if (fields.includes("assignees")) {
+      EditTask.Form.add(EditTask.Assignees);
+    }
+    if (fields.includes("priority")) {
+      EditTask.Form.add(EditTask.Priority, {
+        newLine: !fields.includes("dueDate"),
+      });
+    }
+    if (fields.includes("dueDate")) {
+      EditTask.Form.add(EditTask.Due);
+    }
+    if (fields.includes("description")) {
+      EditTask.Form.add(EditTask.Description);
+    }
+  }
+
+  EditTask.Form.update().render();
+
+  if (single && !EditTask.details && !EditTask.detailsFailed) {
+    Screen.write(chalk.dim(" loading task details...\n"));
+  }
+}
+
+// Before and after of each changed field, the description line by line
+function renderSaveTask() {
+  const tasks = getEditTargets();
+  if (!tasks.length || !EditTask.updates.length) {
+    App.toPage("idle");
+    return;
+  }
+
+  renderTaskHeader(tasks);
+  Screen.write(" save these changes?\n\n");
+
+  const show = (value: string | null | undefined) =>
+    value ? value : chalk.dim("none");
+  const row = (label: string, before: string, after: string) =>
+    renderRow([
+      { text: "", size: 1 },
+      { text: label, size: 12 },
+      { text: `${show(before)} ${chalk.dim("→")} ${show(after)}` },
+    ]);
+
+  for (const update of EditTask.updates.filter(hasChanges)) {
+    const task = App.tasks[update.id];
+    const details = EditTask.details;
+    if (tasks.length > 1) {
+      Screen.write(` ${chalk.yellow(task.id)}\n`);
+    }
+
+    if (update.name) {
+      row("name", task.name, update.name);
+    }
+    if (update.statusLabel) {
+      row("status", task.status.label, update.statusLabel);
+    }
+    if (!details) {
+      continue;
+    }
+    if (update.assignees) {
+      row(
+        "assignees",
+        details.assignees.join(", "),
+        update.assignees.join(", "),
+      );
+    }
+    if (update.priority !== undefined) {
+      row("priority", details.priority ?? "", update.priority ?? "");
+    }
+    if (update.dueDate !== undefined) {
+      row("due", details.dueDate ?? "", update.dueDate ?? "");
+    }
+    if (update.description !== undefined) {
+      Screen.write(" description\n");
+      for (const { type, line } of diffLines(
+        details.description,
+        update.description,
+      )) {
+        Screen.write(
+          type === "added"
+            ? chalk.green(`   + ${line}\n`)
+            : type === "removed"
+              ? chalk.red(`   - ${line}\n`)
+              : chalk.dim(`     ${line}\n`),
+        );
+      }
+    }
+  }
+  renderHorizontalLine();
+}
+
+const Palette = {
+  Form: new Form.Container<{ action: string }>(),
+  Filter: new Form.Input().setName("action").setSize(30),
+  Viewport: new Viewport(),
+  selected: 0,
+};
+
+type PaletteEntry = {
+  scope: Page | "global";
+  action: Action;
+};
+
+function openOverlay(overlay: Overlay) {
+  Palette.Form.reset();
+  Palette.selected = 0;
+  App.overlay = overlay;
+}
+
+function closeOverlay() {
+  Palette.Form.reset();
+  App.overlay = null;
+}
+
+// Global actions the current page doesn't already have
+function getGlobalActions(page: Action[]): Action[] {
+  return App.createActions("global", GlobalActions).filter(
+    (action) => !page.some(({ label }) => label === action.label),
+  );
+}
+
+function renderActionRow(action: Action, selected: boolean, note = "") {
+  const disabled = action.disabled?.() === true;
+  const keys = action.keys.map(formatBinding).join("/");
+
+  renderRow(
+    [
+      {
+        text: (disabled ? chalk.dim.gray : chalk.white.bold)(` ${keys}`),
+        size: 16,
+      },
+      {
+        text: selected
+          ? chalk.yellow(`[${action.label}]`)
+          : (disabled ? chalk.dim.gray : chalk)(` ${action.label} `),
+      },
+      { text: chalk.dim(note), size: 20 },
+    ],
+    { mode: "truncate" },
+  );
+}
+
+const HELP_COLUMN_SIZE = 30;
+
+// Lays the actions out in columns so the longer pages fit on screen
+function renderHelpSection(title: string, actions: Action[]) {
+  const columns = Math.max(1, Math.floor(getColumns() / HELP_COLUMN_SIZE));
+
+  Screen.write(" " + chalk.bold(title) + "\n");
+  for (let i = 0; i < actions.length; i += columns) {
+    renderRow(
+      actions.slice(i, i + columns).map((action) => {
+        const disabled = action.disabled?.() === true;
+        const keys = action.keys.map(formatBinding).join("/").padEnd(12);
+        return {
+          text:
+            " " +
+            (disabled ? chalk.dim.gray : chalk.white.bold)(keys) +
+            " " +
+            (disabled ? chalk.dim.gray : chalk)(action.label),
+          size: HELP_COLUMN_SIZE,
+        };
+      }),
+      { mode: "truncate" },
+    );
   }
 }
 
-function loop() {
-  console.clear();
+function renderHelp() {
+  const actions = App.createActions(App.page, getPageActions()[App.page]);
 
-  // Update key states at the beginning of each frame
-  App.updateKeyStates();
+  renderHelpSection(App.page, actions);
+  Screen.write("\n");
+  renderHelpSection("every page", getGlobalActions(actions));
+}
 
-  if (App.token) {
-    Clickup.setToken(App.token);
+// The page and action that open each page, the palette runs them before
+// the actions of that page so they find it set up
+const PageEntrances: Partial<Record<Page, [from: Page, action: string]>> = {
+  add: ["idle", "add"],
+  "pick-task": ["add", "pick task"],
+  cleanup: ["idle", "cleanup"],
+  update: ["idle", "update"],
+  outbox: ["idle", "outbox"],
+  "edit-task": ["idle", "edit"],
+  "save-task": ["edit-task", "update"],
+  token: ["idle", "token"],
+};
+
+/**
+ * Actions of every page matching the palette filter, the ones of the
+ * current page first. Pages without an entrance, the delete confirmations,
+ * only make sense from their page.
+ */
+function getPaletteEntries(): PaletteEntry[] {
+  const filter = Palette.Form.value.action ?? "";
+  const pages = getPageActions();
+  const current = App.createActions(App.page, pages[App.page]);
+
+  const entries: PaletteEntry[] = [
+    ...current.map((action) => ({ scope: App.page, action })),
+    ...getGlobalActions(current)
+      .filter((action) => action.label !== "palette")
+      .map((action) => ({ scope: "global" as const, action })),
+  ];
+
+  for (const page of Object.keys(pages) as Page[]) {
+    if (page === App.page || (page !== "idle" && !PageEntrances[page])) {
+      continue;
+    }
+    for (const action of App.createActions(page, pages[page])) {
+      entries.push({ scope: page, action });
+    }
   }
 
-  setupActions();
+  return entries
+    .map((entry) => ({
+      entry,
+      score: fuzzyScore(`${entry.action.label} ${entry.scope}`, filter),
+    }))
+    .filter((result) => result.score != null)
+    .sort((a, b) => b.score! - a.score!)
+    .map((result) => result.entry);
+}
 
-  if (!App.token) {
-    App.setStatus("error", "Missing CLICKUP_TOKEN");
-  } else if (App.status?.message?.includes("CLICKUP_TOKEN")) {
-    App.clearStatus();
+function findPageAction(page: Page, label: string): Action | undefined {
+  return App.createActions(page, getPageActions()[page]).find(
+    (action) => action.label === label,
+  );
+}
+
+/**
+ * Opens the page the way its keys would: goes back until a page on the way
+ * to it, the worktree list is on every way, then runs the actions that
+ * open the pages after it. False when a step isn't available.
+ */
+function enterPage(page: Page): boolean {
+  const path: [Page, string][] = [];
+  for (let next = PageEntrances[page]; next; next = PageEntrances[next[0]]) {
+    path.unshift(next);
   }
+  const pages = [...path.map(([from]) => from), page];
 
-  if (UpdateInProgress.canRun()) {
-    updateToInProgress();
+  while (!pages.includes(App.page)) {
+    const current = App.page;
+    findPageAction(current, "back")?.callback();
+    if (App.page === current) {
+      return false;
+    }
   }
 
-  render();
-}
+  for (let i = pages.indexOf(App.page); i < path.length; i++) {
+    const [from, label] = path[i];
+    const action = findPageAction(from, label);
+    if (!action || action.disabled?.()) {
+      return false;
+    }
 
-const TokenForm = new Form.Container();
-const TokenInput = new Form.Input()
-  .setName("token")
-  .setSize(30)
-  .setSecret(true);
+    action.callback();
+    // Some stay on their page, like an edit without changes
+    if (App.page !== pages[i + 1]) {
+      return false;
+    }
+  }
 
-function renderToken() {
-  TokenForm.add(TokenInput).update().render();
+  return true;
 }
 
-const AddForm = new Form.Container();
-const branchInput = new Form.Input().setName("branch").setSize(15);
-const pathInput = new Form.Input().setName("path").setSize(15);
-const commitInput = new Form.Input().setName("commit").setSize(15);
-const createCheckbox = new Form.Checkbox().setName("create");
-
-const Created: Record<string, boolean> = {};
+function runPaletteEntry() {
+  const entry = getPaletteEntries()[Palette.selected];
+  closeOverlay();
+  if (!entry) {
+    return;
+  }
 
-function renderAdd() {
-  AddForm.add(branchInput, { newLine: false })
-    .add(createCheckbox)
-    .add(pathInput)
-    .add(commitInput)
-    .update();
+  const { scope } = entry;
+  const { label } = entry.action;
+  const unavailable = () =>
+    App.setStatus("error", `${label} is not available now`, 3000);
 
-  pathInput.placeholder = branchInput.value;
-  commitInput.placeholder = branchInput.value;
+  if (scope !== "global" && scope !== App.page && !enterPage(scope)) {
+    unavailable();
+    return;
+  }
 
-  if (App.paths.map(getTaskFromPath).includes(branchInput.value)) {
-    branchInput.setInvalid();
-    App.setStatus("error", "worktree already exists");
-  } else {
-    branchInput.setValid();
+  // Taken again, the setup of its page can change what it does
+  const action =
+    scope === "global" ? entry.action : findPageAction(scope, label);
+  if (!action || action.disabled?.()) {
+    unavailable();
+    return;
   }
 
-  AddForm.render();
+  action.callback();
 }
 
-const UpdateStatus = {
-  Form: new Form.Container(),
-  Status: new Form.Select().setName("status").setMinSize(20),
-  Done: new Form.Checkbox().setName("done"),
-};
-
-function renderEditTask() {
-  const task = App.tasks[App.getSelectedBranch()];
-
-  if (!task) {
-    App.toPage("idle");
-    return;
+function renderPalette() {
+  const count = getPaletteEntries().length;
+
+  const selectNext = () => {
+    Palette.selected = Math.min(count - 1, Palette.selected + 1);
+  };
+  const selectPrevious = () => {
+    Palette.selected = Math.max(0, Palette.selected - 1);
+  };
+
+  // Consumed before the form, otherwise they are typed into the filter
+  App.consumeKey(Keys.ARROW_DOWN, selectNext);
+  App.consumeKey(Keys.CTRL_N, selectNext);
+  App.consumeKey(Keys.ARROW_UP, selectPrevious);
+  App.consumeKey(Keys.CTRL_P, selectPrevious);
+
+  const filter = Palette.Form.value.action;
+  Palette.Form.add(Palette.Filter).update();
+  if (Palette.Form.value.action !== filter) {
+    Palette.selected = 0;
   }
+  Palette.Form.render();
+  renderHorizontalLine();
 
-  if (!UpdateStatus.Status.options.length) {
-    runOnce("load-statuses", (resolve) => {
-      loadOrFetchStatuses(task.list.id)
-        .then((statuses) => {
-          App.clearStatus();
-          UpdateStatus.Status.setOptions(statuses);
-          // UpdateStatus.Form.value.status = task.status.id;
-          UpdateStatus.Form.initialValue.status = task.status.id;
-        })
-        .catch((e) => {
-          App.setStatus("error", e);
-        })
-        .finally(resolve);
-    });
+  const entries = getPaletteEntries();
+  if (!entries.length) {
+    Screen.write(chalk.dim(" no actions found\n"));
+    return;
   }
 
-  output.write(chalk.yellow(` ▓ ${task.name}\n`));
-  output.write(
-    ` ${chalk.yellow("▓")} ${task.id}  ${chalk.dim(task.status.label)}\n`,
+  const { start, end } = Palette.Viewport.update(
+    entries.map(() => 1),
+    Palette.selected,
+    Screen.rows - Screen.line - getStatusHeight(),
   );
-  renderHorizontalLine();
 
-  UpdateStatus.Form.add(UpdateStatus.Status, { newLine: false })
-    .add(UpdateStatus.Done)
-    .update()
-    .render();
+  Palette.Viewport.renderTop();
+  for (let i = start; i < end; i++) {
+    const { scope, action } = entries[i];
+    renderActionRow(action, Palette.selected === i, scope);
+  }
+  Palette.Viewport.renderBottom();
 }
 
 function render() {
   renderHeader();
 
-  if (App.page === "token") {
+  if (App.overlay === "help") {
+    renderHelp();
+  } else if (App.overlay === "palette") {
+    renderPalette();
+  } else if (App.page === "token") {
     renderToken();
   } else if (App.page === "add") {
     renderAdd();
   } else if (App.page === "edit-task") {
     renderEditTask();
+  } else if (App.page === "save-task") {
+    renderSaveTask();
+  } else if (App.page === "pick-task") {
+    renderPickTask();
+  } else if (App.page === "cleanup") {
+    renderCleanup();
+  } else if (App.page === "outbox") {
+    renderOutbox();
   } else {
     renderBranches();
     renderHorizontalLine();
@@ -597,28 +2370,54 @@ function render() {
   renderStatus();
 
   if (App.debug) {
-    output.write("\n" + App.debug);
+    Screen.write("\n" + App.debug);
   }
+}
+
+function refreshGitStatus(paths: string[] = App.paths) {
+  Jobs.run("git-status", async () => {
+    const results = await Promise.allSettled(
+      paths.map(async (path) => [path, await Git.getStatus(path)] as const),
+    );
+
+    const statuses: Record<string, WorktreeStatus> = {};
+    for (const result of results) {
+      if (result.status === "rejected") {
+        Files.error.append(`[git-status]: ${result.reason}`);
+        continue;
+      }
+      const [path, status] = result.value;
+      statuses[path] = status;
+    }
 
-  output.write(HIDE_CURSOR);
+    App.gitStatus = { ...App.gitStatus, ...statuses };
+  });
 }
 
 async function refetchSelected(): Promise<unknown> {
-  if (!App.token) {
+  if (!isTrackerReady()) {
     App.toPage("token");
     return;
   }
 
   App.setStatus("info", "fetching task information...");
 
-  const taskId = App.getSelectedBranch();
+  const taskIds = App.getTargetBranches()
+    .map((name) => App.getTaskId(name))
+    .filter((taskId) => taskId != null);
 
-  try {
-    await fetchTask(taskId);
-    saveTasksFile();
+  const results = await Promise.allSettled(taskIds.map(fetchTask));
+  saveTasksFile();
+
+  const failed = results.filter((result) => result.status === "rejected");
+  if (failed.length) {
+    App.setStatus(
+      "error",
+      `unable to update ${failed.length} of ${taskIds.length} tasks`,
+      3000,
+    );
+  } else {
     App.setStatus("success", "successfully updated task", 3000);
-  } catch (e) {
-    App.setStatus("error", "unable updated task", 3000);
   }
 }
 
@@ -632,7 +2431,7 @@ function refetchMissing() {
 }
 
 async function refetchTasks(tasks: string[]): Promise<void> {
-  if (!App.token) {
+  if (!isTrackerReady()) {
     App.toPage("token");
     return;
   }
@@ -662,13 +2461,14 @@ async function refetchTasks(tasks: string[]): Promise<void> {
 }
 
 async function fetchTask(taskId: string): Promise<void> {
-  App.setTaskStatus(taskId, "info", "fetching task information...");
+  const name = App.getNameByTaskId(taskId);
+  App.setTaskStatus(name, "info", "fetching task information...");
   try {
-    const task = await Clickup.getTask(taskId);
+    const task = await Tracker.getTask(taskId);
     App.tasks[taskId] = task;
-    App.clearTaskStatus(taskId);
+    App.setTaskStatus(name, "success", "updated", 2000);
   } catch (e: any) {
-    App.setTaskStatus(taskId, "error", `clickup error: ${e}`);
+    App.setTaskStatus(name, "error", `${Tracker.name} error: ${e}`);
     throw new Error(e);
   }
 }
@@ -709,38 +2509,33 @@ async function updateToInProgress(mode: "run" | "retry" = "run") {
       continue;
     }
 
-    const statuses = await loadOrFetchStatuses(task.list.id);
-
-    const inProgress = statuses.find((status) =>
-      /(in.+progress)/.test(status.label),
-    );
+    delete Created[taskId];
 
-    if (inProgress) {
-      App.setTaskStatus(
-        taskId,
-        "info",
-        `updating status to "${inProgress.label}"`,
-      );
-      Clickup.updateTask({
-        id: taskId,
-        statusLabel: inProgress.label,
+    moveToInProgress(task)
+      .then((status) => {
+        if (status) {
+          Outbox.trim({ id: taskId, statusLabel: status.label });
+        }
       })
-        .then(() => {
-          App.clearTaskStatus(taskId);
-          App.tasks[task.id] = {
-            ...task,
-            status: inProgress,
-          };
-          saveTasksFile();
-        })
-        .catch((e) => {
-          App.setTaskStatus(taskId, "error", "unable to update status", 3000);
-          Files.debug.append(e.message);
-          delete Created[taskId];
-        });
-    }
-
-    delete Created[taskId];
+      .catch((e) => {
+        Files.debug.append(e.message);
+        if (!isTransientError(e)) {
+          App.setTaskStatus(
+            App.getNameByTaskId(taskId),
+            "error",
+            `unable to update status: ${e}`,
+            3000,
+          );
+          return;
+        }
+        Outbox.enqueue({ update: { id: taskId }, inProgress: true }, String(e));
+        App.setTaskStatus(
+          App.getNameByTaskId(taskId),
+          "error",
+          "unable to update status, queued for sync",
+          3000,
+        );
+      });
   }
 
   if (UpdateInProgress.canRetry()) {
@@ -748,9 +2543,80 @@ async function updateToInProgress(mode: "run" | "retry" = "run") {
     global.setTimeout(() => updateToInProgress("retry"), 1000);
   } else {
     UpdateInProgress.running = false;
+
+    // Tasks that were never loaded are synced once the tracker is reachable
+    for (const taskId in Created) {
+      Outbox.enqueue(
+        { update: { id: taskId }, inProgress: true },
+        "task not loaded",
+      );
+      delete Created[taskId];
+    }
+  }
+}
+
+// Resolves with the status the task was moved to, if the list has one
+async function moveToInProgress(task: Task): Promise<Status | undefined> {
+  const inProgress = await getInProgressStatus(task);
+
+  if (!inProgress) {
+    return;
+  }
+
+  const name = App.getNameByTaskId(task.id);
+  App.setTaskStatus(name, "info", `updating status to "${inProgress.label}"`);
+  App.tasks[task.id] = await updateTaskStatus(task, inProgress);
+  App.clearTaskStatus(name);
+  saveTasksFile();
+  return inProgress;
+}
+
+function syncOutbox() {
+  if (!isTrackerReady()) {
+    return;
+  }
+
+  for (const op of Outbox.getDue()) {
+    Jobs.run(`outbox-${op.id}`, async () => {
+      try {
+        await syncOperation(op);
+        Outbox.remove(op.id);
+        App.setTaskStatus(
+          App.getNameByTaskId(op.update.id),
+          "success",
+          "synced",
+          3000,
+        );
+      } catch (e) {
+        Outbox.markFailed(op.id, String(e));
+        Files.debug.append(`[outbox] ${op.id}: ${e}`);
+      }
+    });
+  }
+}
+
+async function syncOperation(op: Operation): Promise<void> {
+  const taskId = op.update.id;
+
+  if (op.inProgress) {
+    const task = App.tasks[taskId] ?? (await Tracker.getTask(taskId));
+    await moveToInProgress(task);
+    return;
+  }
+
+  await Tracker.updateTask(op.update);
+
+  const task = App.tasks[taskId];
+  if (task) {
+    App.tasks[taskId] = applyTaskUpdate(task, op.update, op.status);
+    saveTasksFile();
   }
 }
 
+function isTrackerReady(): boolean {
+  return !Tracker.tokenEnv || !!App.token;
+}
+
 function saveTokenFile() {
   if (App.token) {
     Files.token.write(App.token);
@@ -758,15 +2624,16 @@ function saveTokenFile() {
 }
 
 function saveTasksFile() {
-  const content = yaml.stringify(Object.values(App.tasks));
-  Files.tasks.write(content);
+  saveTasks(App.tasks);
 }
 
-function enterProject() {
+function enterProject(mode?: OpenMode) {
   const project = App.paths[App.selected];
-  // This hack allow us to cd into the branch folder
-  writeFileSync("/tmp/gw-last-dir", project);
-  quit();
+
+  ShellIntegration.open(project, mode).then(
+    (opened) => quit(opened ? undefined : project),
+    (e) => App.setStatus("error", `unable to open ${project}: ${e}`),
+  );
 }
 
 function setSelectedBasedOnBranch() {
@@ -779,124 +2646,245 @@ function setSelectedBasedOnBranch() {
     return;
   }
 
-  const index = App.paths.findIndex((path) => path.endsWith(branch));
+  const index = App.paths.findIndex(
+    (path) => App.getBranch(getTaskFromPath(path)) === branch,
+  );
   App.selected = Math.max(0, index);
 }
 
 function readToken() {
-  const token = Files.token.read() || process.env.CLICKUP_TOKEN;
+  const token = loadToken();
   if (token) {
     App.token = token;
   }
 }
 
 function readTasks() {
-  const content = yaml.parse(Files.tasks.read());
-  if (!content) {
-    return;
+  App.tasks = loadTasks();
+}
+
+function deleteConfirmation() {
+  DeleteTargets = App.getTargetBranches();
+
+  if (!DeleteTargets.includes(App.getSelectedBranch())) {
+    App.selected = App.paths.findIndex(
+      (path) => getTaskFromPath(path) === DeleteTargets[0],
+    );
   }
 
-  for (const entity of content) {
-    const task = TaskSchema.safeParse(entity);
-    if (!task.success) {
-      continue;
+  App.toPage("delete-worktree");
+
+  for (const branch of DeleteTargets) {
+    const path = App.paths.find((path) => getTaskFromPath(path) === branch);
+    if (!path) continue;
+
+    App.setTaskStatus(branch, "info", "checking for unsaved work...");
+
+    Jobs.run(`delete-check-${branch}`, async () => {
+      try {
+        DeleteChecks[branch] = await Git.getDeleteRisks(
+          path,
+          App.getBranch(branch),
+        );
+      } catch (e) {
+        Files.error.append(`[delete-check]: ${e}`);
+        DeleteChecks[branch] = null;
+      }
+
+      if (App.page !== "delete-worktree") {
+        return;
+      }
+
+      App.setTaskStatus(
+        branch,
+        "confirmation",
+        withWarnings("are you sure?", getDeleteWarnings(branch, "worktree")),
+      );
+    });
+  }
+}
+
+function getDeleteWarnings(
+  branch: string,
+  target: "worktree" | "branch",
+): string[] {
+  const risks = DeleteChecks[branch];
+  // Nothing is known about a failed check, it could lose work either way
+  if (!risks) {
+    return ["unable to check for unsaved work"];
+  }
+
+  return getRiskWarnings(risks, target);
+}
+
+function withWarnings(message: string, warnings: string[]): string {
+  if (!warnings.length) {
+    return message;
+  }
+  return `${message} ${chalk.red("⚠ " + warnings.join(", "))}`;
+}
+
+function deleteBranchConfirmation() {
+  for (const branch of DeleteTargets) {
+    App.setTaskStatus(
+      branch,
+      "confirmation",
+      withWarnings("delete branch?", getDeleteWarnings(branch, "branch")),
+    );
+  }
+  App.toPage("delete-branch");
+}
+
+function deleteForceConfirmation() {
+  let needsForce = false;
+
+  for (const branch of DeleteTargets) {
+    const warnings = [
+      ...(DeleteForm.value.worktree
+        ? getDeleteWarnings(branch, "worktree")
+        : []),
+      ...(DeleteForm.value.branch ? getDeleteWarnings(branch, "branch") : []),
+    ];
+
+    if (warnings.length) {
+      needsForce = true;
     }
-    App.tasks[task.data.id] = task.data;
+
+    App.setTaskStatus(
+      branch,
+      "confirmation",
+      withWarnings(
+        warnings.length ? "work will be lost, force delete?" : "ready",
+        warnings,
+      ),
+    );
+  }
+
+  if (!needsForce) {
+    deleteConfirmed();
+    return;
   }
+
+  App.toPage("delete-force");
 }
 
-function deleteConfirmation() {
-  const branch = App.getSelectedBranch();
-  App.toPage("delete-worktree");
-  App.setTaskStatus(branch, "confirmation", "are you sure?");
+function deleteCancel() {
+  for (const branch of DeleteTargets) {
+    delete DeleteChecks[branch];
+  }
+  DeleteTargets = [];
+  DeleteForm.reset();
+  App.clearTaskStatus();
+  App.toPage("idle");
 }
 
 function deleteTask(branch: string) {
   removeBranchFromList(branch);
-  delete App.tasks[branch];
+  const taskId = App.getTaskId(branch);
+  if (taskId) {
+    delete App.tasks[taskId];
+  }
   saveTasksFile();
 }
 
 function deleteConfirmed() {
-  const branch = App.getSelectedBranch();
+  const branches = DeleteTargets;
   const removeWorktree = DeleteForm.value.worktree;
   const removeBranch = DeleteForm.value.branch;
+  const force = DeleteForm.value.force;
 
+  for (const branch of branches) {
+    delete DeleteChecks[branch];
+    App.setTaskStatus(branch, "info", "waiting...");
+  }
+  DeleteTargets = [];
   DeleteForm.reset();
+  App.clearMarked();
   App.toPage("idle");
 
-  Jobs.run(`delete-${branch}`, async () => {
-    if (removeWorktree) {
-      try {
-        App.setTaskStatus(branch, "info", "deleting worktree...");
-        await setTimeout(250);
-        await new Promise<void>((resolve, reject) => {
-          exec(`git worktree remove ${branch}`, (error) => {
-            if (error) return reject(error);
-            return resolve();
-          });
-        });
-        App.setStatus("success", `worktree [${branch}] deleted`, 3000);
-        deleteTask(branch);
-        await setTimeout(1000);
-      } catch (e) {
-        App.setTaskStatus(branch, "error", `unable to delete worktree: ${e}`);
-        return;
-      }
+  // Runs one at a time, git locks refs when deleting branches
+  Jobs.run(`delete-${branches.join(",")}`, async () => {
+    for (const branch of branches) {
+      await deleteWorktree(branch, {
+        worktree: !!removeWorktree,
+        branch: !!removeBranch,
+        force: !!force,
+      });
     }
+  });
+}
 
-    if (removeBranch) {
-      App.setTaskStatus(branch, "info", "deleting branch...");
-
+async function deleteWorktree(
+  branch: string,
+  {
+    worktree: removeWorktree,
+    branch: removeBranch,
+    remote = true,
+    force = false,
+  }: { worktree: boolean; branch: boolean; remote?: boolean; force?: boolean },
+): Promise<boolean> {
+  const ref = App.getBranch(branch);
+  const path =
+    App.paths.find((path) => getTaskFromPath(path) === branch) ?? branch;
+
+  if (removeWorktree) {
+    try {
+      App.setTaskStatus(branch, "info", "deleting worktree...");
+      await setTimeout(250);
+      await Git.removeWorktree(path, force);
+      App.setStatus("success", `worktree [${branch}] deleted`, 3000);
+      deleteTask(branch);
       await setTimeout(1000);
-      const promises: Promise<void>[] = [
-        new Promise((resolve, reject) => {
-          exec(`git branch -D ${branch}`, (error) => {
-            if (error) {
-              App.setStatus(
-                "error",
-                `unable to delete local branch [${branch}]: ${error}`,
-                3000,
-              );
-              return reject();
-            }
-
-            return resolve();
-          });
-        }),
-        new Promise((resolve, reject) => {
-          exec(`git push origin :${branch}`, (error) => {
-            if (error) {
-              App.setStatus(
-                "error",
-                `unable to delete remote branch [${branch}]: ${error}`,
-                3000,
-              );
-              return reject();
-            }
+    } catch (e) {
+      App.setTaskStatus(branch, "error", `unable to delete worktree: ${e}`);
+      return false;
+    }
+  }
 
-            return resolve();
-          });
-        }),
-      ];
+  if (removeBranch) {
+    App.setTaskStatus(branch, "info", "deleting branch...");
 
-      try {
-        await Promise.all(promises);
+    await setTimeout(1000);
+    const promises: Promise<void>[] = [
+      Git.deleteBranch(ref).catch((error) => {
         App.setStatus(
-          "success",
-          `branch [${branch}] successfuly deleted`,
+          "error",
+          `unable to delete local branch [${branch}]: ${error}`,
           3000,
         );
-      } catch (e) {
-        App.setStatus("error", `unable to delete branch ${branch}`);
-      }
+        throw error;
+      }),
+    ];
+
+    if (remote) {
+      promises.push(
+        Git.deleteRemoteBranch(ref).catch((error) => {
+          App.setStatus(
+            "error",
+            `unable to delete remote branch [${branch}]: ${error}`,
+            3000,
+          );
+          throw error;
+        }),
+      );
     }
-  });
+
+    try {
+      await Promise.all(promises);
+      App.setStatus("success", `branch [${branch}] successfuly deleted`, 3000);
+    } catch (e) {
+      App.setStatus("error", `unable to delete branch ${branch}`);
+      return false;
+    }
+  }
+
+  return true;
 }
 
 function removeBranchFromList(branch: string) {
   const removedIndex = App.paths.findIndex((path) => path.endsWith(branch));
   if (removedIndex === -1) return;
+  delete App.marked[branch];
   App.setPaths(App.paths.filter((path) => !path.endsWith(branch)));
   if (removedIndex <= App.selected) {
     App.selected = Math.max(0, App.selected - 1);
@@ -904,97 +2892,154 @@ function removeBranchFromList(branch: string) {
   App.selected = Math.max(0, Math.min(App.selected, App.paths.length - 1));
 }
 
-function quit() {
-  console.clear();
-  output.write(SHOW_CURSOR);
+function quit(message?: string) {
+  stop();
 
-  if (App.interval) {
-    clearInterval(App.interval);
+  if (message) {
+    output.write(message + "\n");
   }
 
   process.exit(0);
 }
 
-input.setRawMode(true);
-input.resume();
-// Track key down events
-input.on("data", (data) => {
-  const key = data.toString("utf8");
+export function stop() {
+  Screen.stop();
+  Screen.terminal.close();
 
-  // Set the key state to pressed
-  App.setKeyState(key, true);
+  if (App.interval) {
+    clearInterval(App.interval);
+  }
 
-  // Handle immediate key actions
-  if (["update", "idle"].includes(App.page) && App.mode !== "search") {
-    if (key === "j" || key === Keys.ARROW_DOWN) {
-      App.selectNext();
-    } else if (key === "k" || key === Keys.ARROW_UP) {
-      App.selectPrevious();
-    } else if (App.status && key === "c") {
-      App.clearStatus();
-    } else if (key === "K" || key === Keys.SHIFT_ARROW_UP) {
-      App.selectFirst();
-    } else if (key === "J" || key === Keys.SHIFT_ARROW_DOWN) {
-      App.selectLast();
-    }
+  if (App.gitStatusInterval) {
+    clearInterval(App.gitStatusInterval);
   }
+}
 
-  for (const action of App.actions) {
-    if (action.disabled && action.disabled()) {
-      continue;
+function listen() {
+  const decoder = new KeyDecoder();
+  Screen.terminal.open();
+  Screen.terminal.onData((data) => {
+    for (const key of decoder.decode(data)) {
+      onKey(key);
     }
+  });
+}
 
-    if (action.shortcut.includes(key)) {
-      App.consumeKey(key, action.callback);
-      return;
-    }
+function onKey(event: KeyEvent) {
+  const key = event.sequence;
+  App.key = event;
+
+  const actions = App.actions.filter((action) => !action.disabled?.());
+  const continues = (keys: string[]) =>
+    actions.some((action) =>
+      action.keys.some((binding) => isPrefix(keys, binding)),
+    );
+
+  // A key that doesn't continue the chord starts a new one
+  let keys = [...App.chord, key];
+  if (App.chord.length && !continues(keys)) {
+    keys = [key];
+  }
+
+  const action = actions.find((action) =>
+    action.keys.some(
+      (binding) => binding.length === keys.length && isPrefix(keys, binding),
+    ),
+  );
+
+  if (action) {
+    App.chord = [];
+    App.consumeKey(key, action.callback);
+  } else if (continues(keys)) {
+    App.chord = keys;
+    App.key = null;
+  } else {
+    App.chord = [];
   }
 
-  // Simulate key release after a short delay
-  // This is needed because Node.js doesn't provide keyup events in raw mode
-  setTimeout(100).then(() => {
-    App.setKeyState(key, false);
-  }); // 100ms is a reasonable time for most key presses
-});
+  // One frame per key, pages read it while rendering so keys typed fast or
+  // pasted are handled in order and never leak into the next page
+  Screen.render();
+  App.key = null;
+}
 
 const DISABLE_LOOP = false;
 
 function main() {
+  global.onunhandledrejection = (event) => {
+    Files.error.append("[unhandled-error]" + event.reason);
+    quit();
+  };
+
+  const keybindingErrors = getKeybindingErrors();
+  if (keybindingErrors.length) {
+    output.write(
+      chalk.red("Invalid keybindings in config.yaml:\n") +
+        keybindingErrors.map((error) => `  ${error}\n`).join(""),
+    );
+    process.exit(1);
+  }
+
   readToken();
   readTasks();
+  Outbox.load();
 
-  exec(
-    "git worktree list | rg -v 'bare' | cut -d' ' -f1",
-    (error, stdout, stderr) => {
-      if (error || stderr) {
-        console.clear();
-        output.write(stderr);
-        process.exit(1);
-      }
-
-      const result = stdout.toString();
-      App.setPaths(result.split("\n").filter(Boolean));
+  Git.listWorktrees().then(
+    (worktrees) => {
+      setWorktrees(worktrees);
       setSelectedBasedOnBranch();
-      loop();
+      start();
 
-      if (App.token) {
+      if (isTrackerReady()) {
         refetchMissing();
       }
 
-      if (DISABLE_LOOP) {
-        return;
-      }
-
-      App.interval = setInterval(() => {
-        loop();
-      }, 1000 / 24);
+      refreshGitStatus();
+      App.gitStatusInterval = setInterval(() => {
+        refreshGitStatus();
+      }, GIT_STATUS_INTERVAL);
+    },
+    (error) => {
+      console.clear();
+      output.write(error.stderr ?? String(error));
+      process.exit(1);
     },
   );
 }
 
-global.onunhandledrejection = (event) => {
-  Files.error.append("[unhandled-error]" + event.reason);
-  quit();
-};
+export function setWorktrees(worktrees: Worktree[]) {
+  for (const worktree of worktrees) {
+    if (worktree.branch) {
+      App.branches[getTaskFromPath(worktree.path)] = worktree.branch;
+    }
+  }
+  App.setPaths(worktrees.map((worktree) => worktree.path));
+}
+
+/**
+ * Starts reading keys and drawing, the worktrees and tasks have to be loaded
+ * already.
+ */
+export function start() {
+  listen();
+  Jobs.onChange(() => Screen.requestRender());
+  Screen.start(loop);
+
+  if (DISABLE_LOOP) {
+    return;
+  }
+
+  App.interval = setInterval(() => {
+    Screen.requestRender();
+  }, TICK_INTERVAL);
+}
 
-main();
+if (isMain(import.meta.url)) {
+  const [command, ...args] = process.argv.slice(2);
+
+  if (command) {
+    runCommand(command, args).then((code) => process.exit(code));
+  } else {
+    main();
+  }
+}
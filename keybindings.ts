@@ -0,0 +1,229 @@
+import * as z from "zod";
+import yaml from "yaml";
+import { Files } from "./files.ts";
+import { KeyDecoder, Keys } from "./keys.ts";
+
+// Keys pressed in order, more than one for chords like `g g`
+export type Binding = string[];
+
+type BoundAction = {
+  label: string;
+  keys: Binding[];
+};
+
+const BindingSchema = z.union([z.string(), z.array(z.string()).min(1)]);
+
+const ConfigSchema = z.object({
+  // Page name (or `global`) to action to one or more bindings
+  keybindings: z
+    .record(z.string(), z.record(z.string(), BindingSchema))
+    .default({}),
+});
+
+let Config: Record<string, Record<string, Binding[]>> | null = null;
+
+function getConfig() {
+  if (!Config) {
+    const { keybindings } = ConfigSchema.parse(
+      yaml.parse(Files.config.read()) ?? {},
+    );
+    Config = {};
+    for (const page in keybindings) {
+      Config[page] = {};
+      for (const action in keybindings[page]) {
+        const value = keybindings[page][action];
+        try {
+          Config[page][action] = (Array.isArray(value) ? value : [value]).map(
+            (binding) => parseBinding(binding),
+          );
+        } catch (e: any) {
+          throw new Error(`keybindings.${page}.${action}: ${e.message}`);
+        }
+      }
+    }
+  }
+  return Config;
+}
+
+// Keys written by name in the config
+const NAMED_KEYS: Record<string, string> = {
+  enter: Keys.ENTER,
+  tab: Keys.TAB,
+  space: Keys.SPACE,
+  esc: Keys.ESC,
+  escape: Keys.ESC,
+  backspace: Keys.BACKSPACE,
+  delete: Keys.DELETE,
+  home: Keys.HOME,
+  end: Keys.END,
+  pageup: Keys.PAGE_UP,
+  pagedown: Keys.PAGE_DOWN,
+  up: Keys.ARROW_UP,
+  down: Keys.ARROW_DOWN,
+  right: Keys.ARROW_RIGHT,
+  left: Keys.ARROW_LEFT,
+};
+
+// How key names are shown in the header
+const KEY_TEXT: Record<string, string> = {
+  escape: "esc",
+  up: "↑",
+  down: "↓",
+  left: "←",
+  right: "→",
+};
+
+/**
+ * Turns a key like `q`, `G`, `enter`, `ctrl+t` or `shift+up` into the
+ * sequence `KeyDecoder` produces for it.
+ */
+export function parseKey(text: string): string {
+  const parts = text.split("+");
+  // Allows binding the plus key itself
+  const name = parts.pop() || "+";
+  const modifiers = new Set(
+    parts.filter(Boolean).map((part) => part.toLowerCase()),
+  );
+  const ctrl = modifiers.delete("ctrl");
+  const alt = modifiers.delete("alt");
+  const shift = modifiers.delete("shift");
+
+  if (modifiers.size) {
+    throw new Error(`Unknown modifier in key "${text}"`);
+  }
+
+  let sequence = NAMED_KEYS[name.toLowerCase()];
+
+  if (sequence?.startsWith("\u001b[")) {
+    // xterm encodes modifiers as 1 + (shift | alt << 1 | ctrl << 2)
+    const modifier = 1 + +shift + 2 * +alt + 4 * +ctrl;
+    if (modifier === 1) return sequence;
+    const match = sequence.match(/^\u001b\[(\d*)(.)$/)!;
+    return `\u001b[${match[1] || 1};${modifier}${match[2]}`;
+  }
+
+  if (sequence === Keys.TAB && shift && !ctrl && !alt) {
+    return Keys.SHIFT_TAB;
+  }
+
+  if (!sequence) {
+    if ([...name].length !== 1) {
+      throw new Error(`Unknown key "${text}"`);
+    }
+    sequence = shift ? name.toUpperCase() : name;
+    if (ctrl) {
+      if (!/^[a-z]$/i.test(name)) {
+        throw new Error(`Unsupported key "${text}"`);
+      }
+      // Ctrl+letter sends the letter position in the alphabet
+      sequence = String.fromCharCode(name.toLowerCase().charCodeAt(0) - 96);
+    }
+  } else if (ctrl || shift) {
+    throw new Error(`Unsupported key "${text}"`);
+  }
+
+  return alt ? Keys.ESC + sequence : sequence;
+}
+
+export function parseBinding(text: string): Binding {
+  const keys = text.trim().split(/\s+/).filter(Boolean);
+  if (!keys.length) {
+    throw new Error("Empty key binding");
+  }
+  return keys.map(parseKey);
+}
+
+export function formatKey(sequence: string): string {
+  const [key] = new KeyDecoder().decode(sequence);
+  if (!key) {
+    return sequence;
+  }
+  if (key.text && key.name !== "space") {
+    return key.text;
+  }
+
+  const name = KEY_TEXT[key.name] ?? key.name;
+  if (key.ctrl && !key.alt && !key.shift && /^[a-z]$/.test(name)) {
+    return "^" + name;
+  }
+  return [key.ctrl && "ctrl", key.alt && "alt", key.shift && "shift", name]
+    .filter(Boolean)
+    .join("+");
+}
+
+export function formatBinding(binding: Binding): string {
+  return binding.map(formatKey).join(" ");
+}
+
+// True when the keys pressed so far are the binding or its beginning
+export function isPrefix(keys: string[], binding: Binding): boolean {
+  return (
+    keys.length <= binding.length &&
+    keys.every((key, index) => binding[index] === key)
+  );
+}
+
+/**
+ * Bindings of an action, from the config when set there or the defaults
+ * given by the page otherwise.
+ */
+export function getBindings(
+  page: string,
+  action: string,
+  defaults: Binding[],
+): Binding[] {
+  return getConfig()[page]?.[action] ?? defaults;
+}
+
+/**
+ * Finds config entries for unknown sections or actions, and bindings that
+ * can't be told apart on a screen: the same keys, or keys starting a chord
+ * bound to another action.
+ *
+ * `sections` are the config sections with their own actions, `screens`
+ * every set of actions active at the same time.
+ */
+export function checkKeybindings(
+  sections: Record<string, BoundAction[]>,
+  screens: Record<string, BoundAction[]>,
+): string[] {
+  const errors: string[] = [];
+  const config = getConfig();
+
+  for (const section in config) {
+    const actions = sections[section];
+    if (!actions) {
+      errors.push(`unknown page "${section}"`);
+      continue;
+    }
+    for (const action in config[section]) {
+      if (!actions.some(({ label }) => label === action)) {
+        errors.push(`unknown action "${action}" on page "${section}"`);
+      }
+    }
+  }
+
+  for (const screen in screens) {
+    const bindings = screens[screen].flatMap(({ label, keys }) =>
+      keys.map((binding) => ({ label, binding })),
+    );
+
+    for (let i = 0; i < bindings.length; i++) {
+      for (let j = i + 1; j < bindings.length; j++) {
+        const a = bindings[i];
+        const b = bindings[j];
+        if (a.label === b.label) continue;
+
+        const [short, long] =
+          a.binding.length <= b.binding.length ? [a, b] : [b, a];
+        if (isPrefix(short.binding, long.binding)) {
+          errors.push(
+            `"${formatBinding(short.binding)}" on page "${screen}" is used by both ${a.label} and ${b.label}`,
+          );
+        }
+      }
+    }
+  }
+
+  return errors;
+}
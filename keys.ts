@@ -4,6 +4,11 @@ const SHIFT_TAB = "\u001b[Z";
 const SPACE = " ";
 const ESC = "\u001b";
 const BACKSPACE = "\u007f";
+const DELETE = "\u001b[3~";
+const HOME = "\u001b[H";
+const END = "\u001b[F";
+const PAGE_UP = "\u001b[5~";
+const PAGE_DOWN = "\u001b[6~";
 const ARROW_UP = "\u001b[A";
 const ARROW_DOWN = "\u001b[B";
 const ARROW_RIGHT = "\u001b[C";
@@ -12,6 +17,13 @@ const SHIFT_ARROW_UP = "\u001b[1;2A";
 const SHIFT_ARROW_DOWN = "\u001b[1;2B";
 const SHIFT_ARROW_RIGHT = "\u001b[1;2C";
 const SHIFT_ARROW_LEFT = "\u001b[1;2D";
+const CTRL_B = "\u0002";
+const CTRL_D = "\u0004";
+const CTRL_F = "\u0006";
+const CTRL_N = "\u000e";
+const CTRL_P = "\u0010";
+const CTRL_T = "\u0014";
+const CTRL_U = "\u0015";
 
 export const Keys = {
   ENTER,
@@ -20,6 +32,11 @@ export const Keys = {
   SPACE,
   ESC,
   BACKSPACE,
+  DELETE,
+  HOME,
+  END,
+  PAGE_UP,
+  PAGE_DOWN,
   ARROW_UP,
   ARROW_DOWN,
   ARROW_RIGHT,
@@ -28,4 +45,231 @@ export const Keys = {
   SHIFT_ARROW_DOWN,
   SHIFT_ARROW_RIGHT,
   SHIFT_ARROW_LEFT,
+  CTRL_B,
+  CTRL_D,
+  CTRL_F,
+  CTRL_N,
+  CTRL_P,
+  CTRL_T,
+  CTRL_U,
 };
+
+export type KeyEvent = {
+  // Normalized sequence, the same for every terminal and comparable with
+  // the constants in `Keys`
+  sequence: string;
+  name: string;
+  ctrl: boolean;
+  alt: boolean;
+  shift: boolean;
+  // What the key inserts, only set for printable keys and pastes
+  text: string | null;
+};
+
+const PASTE_START = "\u001b[200~";
+const PASTE_END = "\u001b[201~";
+
+// Final byte of CSI and SS3 sequences to the key name
+const FINAL_NAMES: Record<string, string> = {
+  A: "up",
+  B: "down",
+  C: "right",
+  D: "left",
+  H: "home",
+  F: "end",
+  P: "f1",
+  Q: "f2",
+  R: "f3",
+  S: "f4",
+};
+
+// First parameter of "CSI <n> ~" sequences to the key name
+const TILDE_NAMES: Record<number, string> = {
+  1: "home",
+  2: "insert",
+  3: "delete",
+  4: "end",
+  5: "pageup",
+  6: "pagedown",
+  7: "home",
+  8: "end",
+  15: "f5",
+  17: "f6",
+  18: "f7",
+  19: "f8",
+  20: "f9",
+  21: "f10",
+  23: "f11",
+  24: "f12",
+};
+
+const NAMES: Record<string, string> = {
+  [ENTER]: "enter",
+  [TAB]: "tab",
+  [SPACE]: "space",
+  [ESC]: "escape",
+  [BACKSPACE]: "backspace",
+};
+
+function createKey(
+  sequence: string,
+  name: string,
+  modifiers: Partial<Pick<KeyEvent, "ctrl" | "alt" | "shift" | "text">> = {},
+): KeyEvent {
+  return {
+    sequence,
+    name,
+    ctrl: false,
+    alt: false,
+    shift: false,
+    text: null,
+    ...modifiers,
+  };
+}
+
+// xterm encodes modifiers as 1 + (shift | alt << 1 | ctrl << 2)
+function decodeModifiers(value: number | undefined) {
+  const bits = Math.max(0, (value ?? 1) - 1);
+  return {
+    shift: !!(bits & 1),
+    alt: !!(bits & 2),
+    ctrl: !!(bits & 4),
+  };
+}
+
+function decodeCsi(params: string, final: string): KeyEvent {
+  const [first, modifier] = params.split(";").map(Number);
+  const modifiers = decodeModifiers(modifier);
+
+  if (final === "Z") {
+    return createKey(SHIFT_TAB, "tab", { shift: true });
+  }
+
+  if (final === "~") {
+    const sequence = modifier
+      ? `\u001b[${first};${modifier}~`
+      : `\u001b[${first}~`;
+    return createKey(sequence, TILDE_NAMES[first] ?? `unknown`, modifiers);
+  }
+
+  const sequence = modifier
+    ? `\u001b[1;${modifier}${final}`
+    : `\u001b[${final}`;
+  return createKey(sequence, FINAL_NAMES[final] ?? "unknown", modifiers);
+}
+
+function decodeChar(char: string): KeyEvent {
+  if (NAMES[char]) {
+    return createKey(char, NAMES[char], {
+      text: char === SPACE ? char : null,
+    });
+  }
+
+  // Enter is "\n" in some terminals and when pasting without bracketed paste
+  if (char === "\n") {
+    return createKey(ENTER, "enter");
+  }
+
+  if (char === "\b") {
+    return createKey(BACKSPACE, "backspace");
+  }
+
+  const code = char.codePointAt(0) ?? 0;
+  if (code < 32) {
+    // Ctrl+letter sends the letter position in the alphabet
+    const name = code === 0 ? "space" : String.fromCharCode(code + 96);
+    return createKey(char, name, { ctrl: true });
+  }
+
+  return createKey(char, char, {
+    shift: char !== char.toLowerCase(),
+    text: char,
+  });
+}
+
+/**
+ * Splits raw terminal input into keys. Sequences cut between chunks and
+ * pastes spanning several chunks are kept until they are complete.
+ */
+export class KeyDecoder {
+  private pending = "";
+  private paste: string | null = null;
+
+  decode(data: string): KeyEvent[] {
+    const keys: KeyEvent[] = [];
+    let input = this.pending + data;
+    this.pending = "";
+
+    while (input.length) {
+      if (this.paste != null) {
+        const end = input.indexOf(PASTE_END);
+        if (end === -1) {
+          // Keeps what could be the start of the end marker for later
+          let keep = PASTE_END.length - 1;
+          while (keep && !input.endsWith(PASTE_END.slice(0, keep))) keep--;
+          this.paste += input.slice(0, input.length - keep);
+          this.pending = input.slice(input.length - keep);
+          break;
+        }
+        keys.push(
+          createKey("", "paste", { text: this.paste + input.slice(0, end) }),
+        );
+        this.paste = null;
+        input = input.slice(end + PASTE_END.length);
+        continue;
+      }
+
+      if (input.startsWith(PASTE_START)) {
+        this.paste = "";
+        input = input.slice(PASTE_START.length);
+        continue;
+      }
+
+      if (input[0] !== ESC) {
+        const char = String.fromCodePoint(input.codePointAt(0) ?? 0);
+        keys.push(decodeChar(char));
+        input = input.slice(char.length);
+        continue;
+      }
+
+      const csi = input.match(/^\u001b\[([\d;]*)([\x40-\x7e])/);
+      if (csi) {
+        keys.push(decodeCsi(csi[1], csi[2]));
+        input = input.slice(csi[0].length);
+        continue;
+      }
+
+      const ss3 = input.match(/^\u001bO([A-Z])/);
+      if (ss3) {
+        keys.push(decodeCsi("", ss3[1]));
+        input = input.slice(ss3[0].length);
+        continue;
+      }
+
+      // The rest of the sequence is in the next chunk
+      if (/^\u001b(\[[\d;]*|O)?$/.test(input) && input.length > 1) {
+        this.pending = input;
+        break;
+      }
+
+      // Alt+key is sent as escape followed by the key
+      if (input.length > 1 && input[1] !== ESC) {
+        const char = String.fromCodePoint(input.codePointAt(1) ?? 0);
+        const key = decodeChar(char);
+        keys.push({
+          ...key,
+          sequence: ESC + key.sequence,
+          alt: true,
+          text: null,
+        });
+        input = input.slice(1 + char.length);
+        continue;
+      }
+
+      keys.push(createKey(ESC, "escape"));
+      input = input.slice(1);
+    }
+
+    return keys;
+  }
+}
@@ -1,9 +1,9 @@
-import { stdout } from "node:process";
 import stripAnsi from "strip-ansi";
 import { getColumns, truncate } from "./utils.ts";
 import chalk from "chalk";
+import { Screen } from "./ui/screen.ts";
 
-type Child = {
+export type Child = {
   text: string;
   align?: "start" | "end";
   hidden?: boolean;
@@ -31,7 +31,7 @@ function calculateRowSizes(initialSizes: number[]) {
   return sizes;
 }
 
-type RenderOptions = {
+export type RenderOptions = {
   mode?: "truncate" | "wrap" | "responsive";
   paddingX?: number;
 };
@@ -55,22 +55,22 @@ export function renderRow(
 
     if (textSize > size) {
       if (mode === "truncate") {
-        stdout.write(truncate(text, size));
+        Screen.write(truncate(text, size));
       } else if (mode === "responsive") {
-        stdout.write("\n" + text);
+        Screen.write("\n" + text);
       } else {
-        stdout.write(chalk.bgGray(text));
+        Screen.write(chalk.bgGray(text));
       }
     } else if (textSize < size) {
       const padCount = size - textSize;
       const pad = " ".repeat(Number.isFinite(padCount) ? padCount : 0);
-      stdout.write(align === "start" ? text + pad : pad + text);
+      Screen.write(align === "start" ? text + pad : pad + text);
     } else {
-      stdout.write(text);
+      Screen.write(text);
     }
 
     sizeCount += size ?? 0;
   }
 
-  stdout.write("\n");
+  Screen.write("\n");
 }
@@ -0,0 +1,148 @@
+import * as z from "zod";
+import yaml from "yaml";
+import { Files } from "../files.ts";
+
+const BranchesSchema = z.object({
+  // The first template is used when creating branches, all of them are
+  // used to recognize task branches
+  templates: z.array(z.string()).min(1).default(["{task_id}"]),
+  task_id: z.string().default("[\\w\\d]+"),
+  type: z.string().default("feat"),
+  // Branches containing any of these, outside of their `{type}`, are never
+  // tasks
+  exclude: z
+    .array(z.string())
+    .default(["master", "solo-", "mob-", "fix-", "feat"]),
+  // Glob patterns listed first, in this order
+  pinned: z.array(z.string()).default(["master", "solo-*", "mob-*"]),
+});
+
+const ConfigSchema = z.object({
+  // Parsed to fill in the defaults of each field
+  branches: BranchesSchema.default(() => BranchesSchema.parse({})),
+});
+
+type BranchConfig = z.output<typeof BranchesSchema>;
+
+export type BranchData = {
+  task_id: string;
+  name?: string;
+  type?: string;
+};
+
+let Config: BranchConfig | null = null;
+let Patterns: RegExp[] | null = null;
+
+function getConfig(): BranchConfig {
+  Config ??= ConfigSchema.parse(yaml.parse(Files.config.read()) ?? {}).branches;
+  return Config;
+}
+
+const FUNCTIONS: Record<string, (value: string) => string> = {
+  slug,
+  lower: (value) => value.toLowerCase(),
+  upper: (value) => value.toUpperCase(),
+};
+
+// Matches `{variable}` and `{function(variable)}`
+const PLACEHOLDER = /\{(?:(\w+)\()?(\w+)\)?\}/g;
+
+export function slug(value: string): string {
+  return value
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "")
+    .slice(0, 40)
+    .replace(/-+$/, "");
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+function compile(template: string, taskId: string): RegExp {
+  let pattern = "";
+  let last = 0;
+  let hasType = false;
+
+  for (const match of template.matchAll(PLACEHOLDER)) {
+    const [placeholder, fn, variable] = match;
+    pattern += escapeRegExp(template.slice(last, match.index));
+
+    if (variable === "task_id") {
+      pattern += `(?<task_id>${taskId})`;
+    } else if (variable === "type" && !hasType) {
+      // Captured to leave it out of the exclude check
+      pattern += "(?<type>.+?)";
+      hasType = true;
+    } else if (fn === "slug") {
+      pattern += "[a-z0-9-]+?";
+    } else {
+      pattern += ".+?";
+    }
+
+    last = match.index + placeholder.length;
+  }
+
+  pattern += escapeRegExp(template.slice(last));
+  return new RegExp(`^${pattern}$`, "d");
+}
+
+export function getTaskId(branch: string): string | null {
+  const config = getConfig();
+  Patterns ??= config.templates.map((template) =>
+    compile(template, config.task_id),
+  );
+
+  for (const pattern of Patterns) {
+    const match = branch.match(pattern);
+    const taskId = match?.groups?.task_id;
+    if (!taskId) {
+      continue;
+    }
+
+    const [start, end] = match.indices?.groups?.type ?? [0, 0];
+    const rest = branch.slice(0, start) + branch.slice(end);
+    if (config.exclude.some((exclude) => rest.includes(exclude))) {
+      return null;
+    }
+
+    return taskId;
+  }
+
+  return null;
+}
+
+export function renderBranch(data: BranchData): string {
+  const config = getConfig();
+  const values: Record<string, string> = {
+    type: config.type,
+    name: data.task_id,
+    ...data,
+  };
+
+  return config.templates[0].replace(
+    PLACEHOLDER,
+    (_, fn: string | undefined, variable: string) => {
+      const value = values[variable] ?? "";
+      return fn && FUNCTIONS[fn] ? FUNCTIONS[fn](value) : value;
+    },
+  );
+}
+
+function matchGlob(pattern: string, value: string): boolean {
+  const regexp = pattern.split("*").map(escapeRegExp).join(".*");
+  return new RegExp(`^${regexp}$`).test(value);
+}
+
+/**
+ * Position of the branch in the list, pinned branches come first in the
+ * configured order, everything else keeps its order after them.
+ */
+export function getPinnedRank(branch: string): number {
+  const { pinned } = getConfig();
+  const index = pinned.findIndex((pattern) => matchGlob(pattern, branch));
+  return index === -1 ? pinned.length : index;
+}
@@ -0,0 +1,135 @@
+import { randomUUID } from "node:crypto";
+import * as z from "zod";
+import yaml from "yaml";
+import { TaskDetailsSchema } from "../app.ts";
+import { Files } from "../files.ts";
+import type { TaskUpdate } from "../service/tracker.ts";
+
+const BACKOFF_BASE = 5 * 1000;
+const BACKOFF_MAX = 10 * 60 * 1000;
+
+const OperationSchema = z.object({
+  id: z.string(),
+  update: TaskDetailsSchema.partial().extend({
+    id: z.string(),
+    name: z.string().optional(),
+    statusLabel: z.string().optional(),
+  }),
+  // Status is resolved when syncing, used when the task wasn't loaded yet
+  inProgress: z.boolean().optional(),
+  status: z.object({ id: z.string(), label: z.string() }).optional(),
+  attempts: z.number(),
+  nextAttempt: z.number(),
+  error: z.string().nullable(),
+  createdAt: z.number(),
+});
+
+export type Operation = z.infer<typeof OperationSchema>;
+
+type NewOperation = Pick<Operation, "update" | "inProgress" | "status">;
+
+function getBackoff(attempts: number): number {
+  return Math.min(BACKOFF_BASE * 2 ** Math.max(0, attempts - 1), BACKOFF_MAX);
+}
+
+export const Outbox: {
+  operations: Operation[];
+  load(): void;
+  save(): void;
+  enqueue(operation: NewOperation, error: string): Operation;
+  trim(update: TaskUpdate): void;
+  remove(id: string): void;
+  retry(id?: string): void;
+  markFailed(id: string, error: string): void;
+  getDue(now?: number): Operation[];
+} = {
+  operations: [],
+
+  load() {
+    const result = z
+      .array(OperationSchema)
+      .safeParse(yaml.parse(Files.outbox.read()));
+    this.operations = result.success ? result.data : [];
+  },
+
+  save() {
+    Files.outbox.write(yaml.stringify(this.operations));
+  },
+
+  enqueue(operation, error) {
+    const now = Date.now();
+    // A newer change to the same task replaces the queued one. It gets a new
+    // id, so a sync of the old one finishing later doesn't remove it
+    const existing = this.operations.find(
+      (queued) => queued.update.id === operation.update.id,
+    );
+
+    const queued: Operation = {
+      update: { ...existing?.update, ...operation.update },
+      status: operation.status ?? existing?.status,
+      inProgress:
+        operation.inProgress ??
+        (operation.update.statusLabel ? false : existing?.inProgress),
+      id: randomUUID(),
+      attempts: 1,
+      nextAttempt: now + getBackoff(1),
+      error,
+      createdAt: existing?.createdAt ?? now,
+    };
+
+    this.operations = this.operations
+      .filter((queued) => queued.id !== existing?.id)
+      .concat(queued);
+    this.save();
+    return queued;
+  },
+
+  // Drops the queued changes an update sent directly already made, syncing
+  // them later would undo newer ones
+  trim({ id, ...fields }) {
+    const op = this.operations.find((queued) => queued.update.id === id);
+    if (!op) return;
+
+    for (const field in fields) {
+      delete op.update[field as keyof typeof fields];
+    }
+    if (fields.statusLabel) {
+      delete op.status;
+      op.inProgress = false;
+    }
+
+    if (Object.keys(op.update).length === 1 && !op.inProgress) {
+      this.remove(op.id);
+    } else {
+      this.save();
+    }
+  },
+
+  remove(id) {
+    this.operations = this.operations.filter((op) => op.id !== id);
+    this.save();
+  },
+
+  retry(id) {
+    const now = Date.now();
+    for (const op of this.operations) {
+      if (!id || op.id === id) {
+        op.nextAttempt = now;
+      }
+    }
+    this.save();
+  },
+
+  markFailed(id, error) {
+    const op = this.operations.find((op) => op.id === id);
+    if (!op) return;
+    op.attempts++;
+    op.nextAttempt = Date.now() + getBackoff(op.attempts);
+    op.error = error;
+    this.save();
+  },
+
+  getDue(now = Date.now()) {
+    return this.operations.filter((op) => op.nextAttempt <= now);
+  },
+};
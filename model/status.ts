@@ -1,27 +1,42 @@
 import * as z from "zod";
 import yaml from "yaml";
 import { Files } from "../files.ts";
-import { Clickup } from "../service/clickup.ts";
+import { Tracker } from "../service/tracker.ts";
+
+// Where a status sits in the workflow, statuses are grouped by it
+export const StatusTypes = ["open", "custom", "done", "closed"] as const;
 
 const StatusSchema = z.object({
   id: z.string(),
   label: z.string(),
+  // Hex color set in the tracker
+  color: z.string().optional(),
+  type: z.enum(StatusTypes).optional(),
 });
 
 export type Status = z.infer<typeof StatusSchema>;
+export type StatusType = (typeof StatusTypes)[number];
 
 const StatusCacheSchema = z.record(z.string(), z.array(StatusSchema));
 
 type StatusCache = z.infer<typeof StatusCacheSchema>;
 
+// Throws on an invalid file instead of replacing statuses written by hand
 export function loadStatuses(): Record<string, Status[]> {
-  const content = Files.statuses.read();
-  const result = StatusCacheSchema.safeParse(content);
-  if (result.success) {
-    return result.data;
+  let content: unknown;
+  try {
+    content = yaml.parse(Files.statuses.read());
+  } catch (e) {
+    throw new Error(`Invalid ${Files.statuses.path}: ${e}`);
+  }
+
+  const result = StatusCacheSchema.safeParse(content ?? {});
+  if (!result.success) {
+    throw new Error(
+      `Invalid ${Files.statuses.path}:\n${z.prettifyError(result.error)}`,
+    );
   }
-  saveStatuses({});
-  return {};
+  return result.data;
 }
 
 export async function loadOrFetchStatuses(listId: string): Promise<Status[]> {
@@ -32,8 +47,8 @@ export async function loadOrFetchStatuses(listId: string): Promise<Status[]> {
     Files.debug.append(`Loaded status from local file, list: ${listId}`);
     return local[listId];
   }
-  const statuses = await Clickup.getStatuses(listId);
-  Files.debug.append(`Loaded status from clickup, list: ${listId}`);
+  const statuses = await Tracker.getStatuses(listId);
+  Files.debug.append(`Loaded status from ${Tracker.name}, list: ${listId}`);
   saveStatuses({ ...local, [listId]: statuses });
   return statuses;
 }
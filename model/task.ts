@@ -0,0 +1,90 @@
+import yaml from "yaml";
+import { TaskSchema, type Task } from "../app.ts";
+import { Files } from "../files.ts";
+import { Tracker, type TaskUpdate } from "../service/tracker.ts";
+import { loadOrFetchStatuses, type Status } from "./status.ts";
+
+export function loadTasks(): Record<string, Task> {
+  const tasks: Record<string, Task> = {};
+  const content = yaml.parse(Files.tasks.read());
+  if (!content) {
+    return tasks;
+  }
+
+  for (const entity of content) {
+    const task = TaskSchema.safeParse(entity);
+    if (!task.success) {
+      continue;
+    }
+    tasks[task.data.id] = task.data;
+  }
+
+  return tasks;
+}
+
+export function saveTasks(tasks: Record<string, Task>): void {
+  Files.tasks.write(yaml.stringify(Object.values(tasks)));
+}
+
+export function loadToken(): string | null {
+  return (
+    Files.token.read() ||
+    (Tracker.tokenEnv ? process.env[Tracker.tokenEnv] : undefined) ||
+    null
+  );
+}
+
+export async function getInProgressStatus(
+  task: Task,
+): Promise<Status | undefined> {
+  const statuses = await loadOrFetchStatuses(task.list.id);
+  return statuses.find((status) => /(in.+progress)/i.test(status.label));
+}
+
+export async function getStatusByLabel(
+  task: Task,
+  label: string,
+): Promise<Status> {
+  const statuses = await loadOrFetchStatuses(task.list.id);
+  const status = statuses.find(
+    (status) => status.label.toLowerCase() === label.toLowerCase(),
+  );
+  if (!status) {
+    throw new Error(
+      `Unknown status "${label}", expected one of: ${statuses.map((status) => status.label).join(", ")}`,
+    );
+  }
+  return status;
+}
+
+/**
+ * Moves the task to the given status in the tracker and returns the task
+ * as it should be cached.
+ */
+export async function updateTaskStatus(
+  task: Task,
+  status: Status,
+): Promise<Task> {
+  await Tracker.updateTask({
+    id: task.id,
+    statusLabel: status.label,
+  });
+  return applyTaskUpdate(task, { id: task.id }, status);
+}
+
+// The task as it should be cached once the update is saved
+export function applyTaskUpdate(
+  task: Task,
+  { id, name, statusLabel, ...details }: TaskUpdate,
+  status?: Status,
+): Task {
+  return {
+    ...task,
+    name: name ?? task.name,
+    status: status ? { id: status.id, label: status.label } : task.status,
+    details:
+      task.details && Object.keys(details).length
+        ? { ...task.details, ...details }
+        : task.details,
+  };
+}
@@ -0,0 +1,110 @@
+import { exec } from "node:child_process";
+import { existsSync } from "node:fs";
+import { join as pathJoin, resolve } from "node:path";
+import { promisify } from "node:util";
+import * as z from "zod";
+import yaml from "yaml";
+import { Files } from "../files.ts";
+import type { DeleteRisks } from "../service/git.ts";
+
+const execAsync = promisify(exec);
+
+const CleanupSchema = z.object({
+  // Worktrees without commits for longer are offered for cleanup
+  stale_days: z.number().positive().default(30),
+});
+
+const ConfigSchema = z.object({
+  cleanup: CleanupSchema.default(() => CleanupSchema.parse({})),
+});
+
+type CleanupConfig = z.output<typeof CleanupSchema>;
+
+let Config: CleanupConfig | null = null;
+
+export function getCleanupConfig(): CleanupConfig {
+  Config ??= ConfigSchema.parse(yaml.parse(Files.config.read()) ?? {}).cleanup;
+  return Config;
+}
+
+export type AddWorktree = {
+  branch: string;
+  path: string;
+  commit: string;
+  createNew: boolean;
+};
+
+// New worktrees go next to the current one
+export async function getWorktreeDestination(path: string): Promise<string> {
+  const isInsideWorktree = (
+    await execAsync("git rev-parse --is-inside-work-tree")
+  ).stdout.startsWith("true");
+
+  return pathJoin(isInsideWorktree ? ".." : ".", path);
+}
+
+/**
+ * Adds the worktree next to the current one, copying `worktree-common` into
+ * it when present. Resolves with the absolute path of the new worktree.
+ */
+export async function createWorktree({
+  branch,
+  path,
+  commit,
+  createNew,
+}: AddWorktree): Promise<string> {
+  const defaultBranch =
+    (await execAsync("git remote show origin | grep HEAD")).stdout
+      .replace("HEAD branch: ", "")
+      .trim() || "master";
+  const commonDir = await getWorktreeDestination("worktree-common");
+  const destination = await getWorktreeDestination(path);
+
+  await execAsync("git fetch --all");
+
+  await execAsync(
+    [
+      "git worktree add",
+      createNew ? `-b ${branch} ` : "",
+      destination,
+      createNew ? `origin/${defaultBranch}` : commit,
+    ].join(" "),
+  );
+  if (!createNew) {
+    await execAsync(
+      `git branch --set-upstream-to=origin/${branch} ${branch} 2>/dev/null`,
+    );
+  }
+  if (existsSync(commonDir)) {
+    await execAsync(`cp -R ${commonDir}/ ${destination}`);
+  }
+
+  return resolve(destination);
+}
+
+export function getRiskWarnings(
+  risks: DeleteRisks,
+  target: "worktree" | "branch",
+): string[] {
+  const warnings: string[] = [];
+
+  if (target === "worktree" && risks.uncommitted === null) {
+    warnings.push("unable to check uncommitted changes");
+  } else if (target === "worktree" && risks.uncommitted) {
+    warnings.push(`${risks.uncommitted} uncommitted changes`);
+  }
+
+  if (target === "branch") {
+    if (risks.stashes) {
+      warnings.push(`${risks.stashes} stashes`);
+    }
+    if (risks.unpushed) {
+      warnings.push(`${risks.unpushed} commits not in remote`);
+    }
+    if (risks.unmerged) {
+      warnings.push(`not merged into ${risks.unmerged}`);
+    }
+  }
+
+  return warnings;
+}
@@ -1,17 +1,25 @@
 import * as z from "zod";
-import { type Task } from "../app.ts";
 import { parse } from "yaml";
+import { Priorities } from "../app.ts";
 import { Files } from "../files.ts";
-import type { Status } from "../model/status.ts";
+import { RequestError, parseResponse } from "./errors.ts";
+import type { TrackerProvider } from "./tracker.ts";
 
 const ConfigSchema = z.object({
   team_id: z.number(),
   project_id: z.number(),
   folder_id: z.number(),
   space_id: z.number(),
+  view_id: z.string().default("183aev-81593"),
+  api_url: z.string().default("https://api.clickup.com/api"),
 });
 
-const Config = ConfigSchema.parse(parse(Files.config.read()));
+let Config: z.output<typeof ConfigSchema> | null = null;
+
+function getConfig() {
+  Config ??= ConfigSchema.parse(parse(Files.config.read()));
+  return Config;
+}
 
 const TaskResponseSchema = z.object({
   id: z.string(),
@@ -26,6 +34,25 @@ const TaskResponseSchema = z.object({
   }),
 });
 
+const UserSchema = z.object({
+  id: z.number(),
+  username: z.string().nullable(),
+  email: z.string(),
+});
+
+const TaskDetailsResponseSchema = z.object({
+  description: z.string().nullable(),
+  assignees: z.array(UserSchema),
+  priority: z.object({ priority: z.enum(Priorities) }).nullable(),
+  // Unix time in milliseconds
+  due_date: z.string().nullable(),
+});
+
+// People are edited by username, ClickUp assigns them by id
+function getUserName(user: z.output<typeof UserSchema>): string {
+  return user.username ?? user.email;
+}
+
 const StatusSchema = z.object({
   id: z.string(),
   status: z.string(),
@@ -39,21 +66,13 @@ const ListResponseSchema = z.object({
   statuses: z.array(StatusSchema),
 });
 
-export const Clickup: {
+export const Clickup: TrackerProvider & {
   readonly _token?: string;
-  setToken(token: string): void;
   _request<T extends unknown>(url: string, init?: RequestInit): Promise<T>;
-  getTask(taskId: string): Promise<Task>;
-  updateTask(
-    data: { id: string } & Partial<{
-      name: string;
-      statusLabel: string;
-    }>,
-  ): Promise<void>;
-  getTaskList(): Promise<Task[]>;
-  getStatuses(listId: string): Promise<Status[]>;
-  getTaskUrl(taskId: string): string;
 } = {
+  name: "clickup",
+  tokenEnv: "CLICKUP_TOKEN",
+  details: ["description", "assignees", "priority", "dueDate"],
   _token: undefined,
 
   setToken(token) {
@@ -65,7 +84,7 @@ export const Clickup: {
     if (!this._token) throw new Error("Missing token");
     if (!url) throw new Error("Missing request url");
 
-    const response = await fetch(`https://api.clickup.com/api${url}`, {
+    const response = await fetch(`${getConfig().api_url}${url}`, {
       method: init?.method ?? "GET",
       headers: {
         "content-type": "application/json",
@@ -75,8 +94,10 @@ export const Clickup: {
       body: init?.body,
     });
 
-    const json = await response.json();
-    if (json.err) throw new Error(json.err);
+    const json = await parseResponse(response);
+    if (json.err || !response.ok) {
+      throw new RequestError(json.err ?? response.statusText, response.status);
+    }
     return json;
   },
 
@@ -100,26 +121,73 @@ export const Clickup: {
     };
   },
 
+  async getTaskDetails(taskId) {
+    const task = TaskDetailsResponseSchema.parse(
+      await this._request(`/v2/task/${taskId}`),
+    );
+    return {
+      description: task.description ?? "",
+      assignees: task.assignees.map(getUserName),
+      priority: task.priority?.priority ?? null,
+      dueDate: task.due_date
+        ? new Date(Number(task.due_date)).toISOString().slice(0, 10)
+        : null,
+    };
+  },
+
   async updateTask(task) {
-    // const response = await this._request(`/v2/task/${task.id}`, {
-    //   method: "PUT",
-    //   body: JSON.stringify({
-    //     status: task.status,
-    //   }),
-    // });
-    await this._request(`/v1/task/${task.id}`, {
+    const body: Record<string, unknown> = {
+      name: task.name,
+      status: task.statusLabel,
+      description: task.description,
+    };
+
+    if (task.priority !== undefined) {
+      // 1 is urgent, null clears it
+      body.priority = task.priority
+        ? Priorities.indexOf(task.priority) + 1
+        : null;
+    }
+
+    if (task.dueDate !== undefined) {
+      body.due_date = task.dueDate ? Date.parse(task.dueDate) : null;
+    }
+
+    if (task.assignees) {
+      const current = TaskDetailsResponseSchema.parse(
+        await this._request(`/v2/task/${task.id}`),
+      ).assignees;
+      const members = z
+        .object({ members: z.array(UserSchema) })
+        .parse(await this._request(`/v2/task/${task.id}/member`)).members;
+
+      const add = task.assignees.map((name) => {
+        const member = members.find(
+          (member) => getUserName(member) === name || member.email === name,
+        );
+        if (!member) {
+          throw new Error(`Unknown assignee "${name}"`);
+        }
+        return member.id;
+      });
+      body.assignees = {
+        add: add.filter((id) => !current.some((user) => user.id === id)),
+        rem: current
+          .filter((user) => !add.includes(user.id))
+          .map((user) => user.id),
+      };
+    }
+
+    await this._request(`/v2/task/${task.id}`, {
       method: "PUT",
-      body: JSON.stringify({
-        // item_ids: [task.id],
-        status: task.statusLabel,
-      }),
+      body: JSON.stringify(body),
     });
   },
 
   async getTaskList() {
     const response = await this._request<{
       tasks: z.output<typeof TaskResponseSchema>[];
-    }>(`/v2/view/183aev-81593/task`);
+    }>(`/v2/view/${getConfig().view_id}/task`);
     return response.tasks.map((task) => {
       return {
         id: task.id,
@@ -141,6 +209,8 @@ export const Clickup: {
       return {
         id: status.id,
         label: status.status,
+        color: status.color,
+        type: status.type,
       };
     });
   },
@@ -0,0 +1,37 @@
+// Request answered by the tracker with an error
+export class RequestError extends Error {
+  status: number;
+
+  constructor(message: string, status: number) {
+    super(message);
+    this.status = status;
+  }
+}
+
+/**
+ * Whether the error may go away on a later try: the request couldn't be
+ * made, timed out or the tracker failed. Anything else, like an unknown
+ * status or assignee, fails the same way again.
+ */
+export function isTransientError(e: unknown): boolean {
+  if (e instanceof RequestError) {
+    return e.status >= 500 || e.status === 408 || e.status === 429;
+  }
+  // fetch rejects with a TypeError when there is no response
+  return e instanceof TypeError;
+}
+
+/**
+ * Reads the JSON body of a tracker response. Proxies answer with HTML pages
+ * when the tracker is down, those fail with the status of the response.
+ */
+export async function parseResponse(response: Response): Promise<any> {
+  try {
+    return await response.json();
+  } catch {
+    throw new RequestError(
+      `${response.status} ${response.statusText}`,
+      response.status,
+    );
+  }
+}
@@ -0,0 +1,141 @@
+import { createFakeServer, runIfMain } from "./server.ts";
+
+type FakeStatus = {
+  id: string;
+  status: string;
+  color: string;
+  type: "open" | "custom" | "done" | "closed";
+};
+
+type FakeTask = {
+  id: string;
+  name: string;
+  statusId: string;
+  description: string | null;
+  // 1 is urgent to 4 low, like the API takes it
+  priority: number | null;
+  // Unix time in milliseconds
+  dueDate: number | null;
+  assigneeIds: number[];
+};
+
+const PRIORITIES = ["urgent", "high", "normal", "low"];
+
+const LIST = { id: "list-1", name: "Sprint" };
+
+const MEMBERS = [
+  { id: 1, username: "ada", email: "ada@example.com" },
+  { id: 2, username: null, email: "alan@example.com" },
+];
+
+const STATUSES: FakeStatus[] = [
+  { id: "st-todo", status: "to do", color: "#d3d3d3", type: "open" },
+  {
+    id: "st-progress",
+    status: "in progress",
+    color: "#4194f6",
+    type: "custom",
+  },
+  { id: "st-done", status: "complete", color: "#6bc950", type: "closed" },
+];
+
+const SEED: FakeTask[] = [
+  {
+    id: "86a1",
+    name: "Login form",
+    statusId: "st-todo",
+    description: "Email and password, with a link to reset it.",
+    priority: 2,
+    dueDate: Date.parse("2026-11-01"),
+    assigneeIds: [1],
+  },
+  {
+    id: "86a2",
+    name: "Dark mode",
+    statusId: "st-progress",
+    description: null,
+    priority: null,
+    dueDate: null,
+    assigneeIds: [],
+  },
+];
+
+/**
+ * In-memory ClickUp API, implements only the endpoints used by the ClickUp
+ * tracker. Every task is in the same list and view.
+ */
+export function createClickupFake(seed: FakeTask[] = SEED) {
+  const tasks = new Map(seed.map((task) => [task.id, structuredClone(task)]));
+
+  const toResponse = (task: FakeTask) => {
+    const status = STATUSES.find((status) => status.id === task.statusId)!;
+    return {
+      id: task.id,
+      name: task.name,
+      status: { id: status.id, status: status.status },
+      list: LIST,
+      description: task.description,
+      assignees: MEMBERS.filter((member) =>
+        task.assigneeIds.includes(member.id),
+      ),
+      priority: task.priority
+        ? { priority: PRIORITIES[task.priority - 1] }
+        : null,
+      due_date: task.dueDate ? String(task.dueDate) : null,
+    };
+  };
+
+  const fake = createFakeServer(({ method, url, body, token }, send) => {
+    if (!token) {
+      return send(401, { err: "Token invalid", ECODE: "OAUTH_025" });
+    }
+
+    if (url.pathname.match(/^\/v2\/view\/[^/]+\/task$/)) {
+      return send(200, { tasks: [...tasks.values()].map(toResponse) });
+    }
+
+    if (url.pathname === `/v2/list/${LIST.id}`) {
+      return send(200, { ...LIST, statuses: STATUSES });
+    }
+
+    const match = url.pathname.match(/^\/v2\/task\/([^/]+)(\/member)?$/);
+    const task = match && tasks.get(match[1]);
+    if (!task) {
+      return send(404, { err: "Task not found", ECODE: "ITEM_013" });
+    }
+
+    if (match[2]) {
+      return send(200, { members: MEMBERS });
+    }
+
+    if (method === "PUT") {
+      if (body.name) task.name = body.name;
+      if (body.description !== undefined) task.description = body.description;
+      if (body.priority !== undefined) task.priority = body.priority;
+      if (body.due_date !== undefined) task.dueDate = body.due_date;
+      if (body.status) {
+        const status = STATUSES.find(
+          (status) => status.status === body.status.toLowerCase(),
+        );
+        if (!status) {
+          return send(400, {
+            err: "Status does not exist",
+            ECODE: "CRTSK_001",
+          });
+        }
+        task.statusId = status.id;
+      }
+      if (body.assignees) {
+        task.assigneeIds = task.assigneeIds
+          .filter((id) => !body.assignees.rem.includes(id))
+          .concat(body.assignees.add);
+      }
+    }
+
+    return send(200, toResponse(task));
+  });
+
+  return { ...fake, tasks };
+}
+
+runIfMain(import.meta.url, createClickupFake, 4012);
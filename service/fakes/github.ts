@@ -0,0 +1,123 @@
+import { createFakeServer, runIfMain } from "./server.ts";
+
+type FakeIssue = {
+  number: number;
+  title: string;
+  state: "open" | "closed";
+  labels: { name: string }[];
+  body: string | null;
+  assignees: { login: string }[];
+};
+
+// Owner of any token
+const USER = "octocat";
+
+const SEED: FakeIssue[] = [
+  {
+    number: 1,
+    title: "Login form",
+    state: "open",
+    labels: [],
+    body: "Email and password, with a link to reset it.",
+    assignees: [{ login: "octocat" }],
+  },
+  {
+    number: 2,
+    title: "Dark mode",
+    state: "open",
+    labels: [{ name: "in progress" }, { name: "ui" }],
+    body: null,
+    assignees: [{ login: "octocat" }],
+  },
+  {
+    number: 3,
+    title: "Old crash",
+    state: "closed",
+    labels: [],
+    body: null,
+    assignees: [],
+  },
+  {
+    number: 4,
+    title: "Billing page",
+    state: "open",
+    labels: [],
+    body: null,
+    assignees: [{ login: "hubot" }],
+  },
+];
+
+// `assignee` filter of the API: a login, `*` for anyone and `none` for nobody
+function matchesAssignee(issue: FakeIssue, assignee: string | null): boolean {
+  if (assignee === null) {
+    return true;
+  }
+  if (assignee === "*") {
+    return issue.assignees.length > 0;
+  }
+  if (assignee === "none") {
+    return !issue.assignees.length;
+  }
+  return issue.assignees.some((user) => user.login === assignee);
+}
+
+/**
+ * In-memory GitHub Issues API, implements only the endpoints used by the
+ * Github tracker.
+ */
+export function createGithubFake(seed: FakeIssue[] = SEED) {
+  const issues = new Map(
+    seed.map((issue) => [issue.number, structuredClone(issue)]),
+  );
+
+  const fake = createFakeServer(({ method, url, body, token }, send) => {
+    if (!token) {
+      return send(401, { message: "Requires authentication" });
+    }
+
+    if (url.pathname === "/user") {
+      return send(200, { login: USER });
+    }
+
+    const match = url.pathname.match(
+      /^\/repos\/[^/]+\/[^/]+\/issues(?:\/(\d+))?$/,
+    );
+    if (!match) {
+      return send(404, { message: "Not Found" });
+    }
+
+    if (!match[1]) {
+      const state = url.searchParams.get("state") ?? "open";
+      const assignee = url.searchParams.get("assignee");
+      return send(
+        200,
+        [...issues.values()].filter(
+          (issue) => issue.state === state && matchesAssignee(issue, assignee),
+        ),
+      );
+    }
+
+    const issue = issues.get(Number(match[1]));
+    if (!issue) {
+      return send(404, { message: "Not Found" });
+    }
+
+    if (method === "PATCH") {
+      if (body.title) issue.title = body.title;
+      if (body.state) issue.state = body.state;
+      if (body.labels) {
+        issue.labels = body.labels.map((name: string) => ({ name }));
+      }
+      if (body.body !== undefined) issue.body = body.body;
+      if (body.assignees) {
+        issue.assignees = body.assignees.map((login: string) => ({ login }));
+      }
+    }
+
+    return send(200, issue);
+  });
+
+  return { ...fake, issues };
+}
+
+runIfMain(import.meta.url, createGithubFake, 4010);
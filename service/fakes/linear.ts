@@ -0,0 +1,161 @@
+import { createFakeServer, runIfMain } from "./server.ts";
+
+type FakeState = { id: string; name: string; type: string; position: number };
+
+type FakeIssue = {
+  id: string;
+  identifier: string;
+  title: string;
+  stateId: string;
+  assigned: boolean;
+  description: string | null;
+  priority: number;
+  dueDate: string | null;
+  assigneeId: string | null;
+};
+
+const TEAM = { id: "team-1", name: "Engineering" };
+
+const USERS = [
+  {
+    id: "user-1",
+    name: "Ada Lovelace",
+    displayName: "ada",
+    email: "ada@example.com",
+  },
+  {
+    id: "user-2",
+    name: "Alan Turing",
+    displayName: "alan",
+    email: "alan@example.com",
+  },
+];
+
+const STATES: FakeState[] = [
+  { id: "state-todo", name: "Todo", type: "unstarted", position: 0 },
+  { id: "state-progress", name: "In Progress", type: "started", position: 1 },
+  { id: "state-done", name: "Done", type: "completed", position: 2 },
+];
+
+const SEED: FakeIssue[] = [
+  {
+    id: "issue-1",
+    identifier: "ENG-1",
+    title: "Login form",
+    stateId: "state-todo",
+    assigned: true,
+    description: "Email and password, with a link to reset it.",
+    priority: 2,
+    dueDate: "2026-11-01",
+    assigneeId: "user-1",
+  },
+  {
+    id: "issue-2",
+    identifier: "ENG-2",
+    title: "Dark mode",
+    stateId: "state-done",
+    assigned: true,
+    description: null,
+    priority: 0,
+    dueDate: null,
+    assigneeId: null,
+  },
+];
+
+/**
+ * In-memory Linear GraphQL API. There is no GraphQL parser, requests are
+ * matched by the operation name used by the Linear tracker.
+ */
+export function createLinearFake(seed: FakeIssue[] = SEED) {
+  const issues = new Map(
+    seed.map((issue) => [issue.identifier, structuredClone(issue)]),
+  );
+
+  const toResponse = (issue: FakeIssue) => ({
+    id: issue.id,
+    identifier: issue.identifier,
+    title: issue.title,
+    state: STATES.find((state) => state.id === issue.stateId),
+    team: TEAM,
+  });
+
+  const fake = createFakeServer(({ method, body, token }, send) => {
+    if (!token) {
+      return send(401, { errors: [{ message: "Authentication required" }] });
+    }
+
+    if (method !== "POST" || typeof body?.query !== "string") {
+      return send(400, { errors: [{ message: "Invalid request" }] });
+    }
+
+    const operation = body.query.match(/(?:query|mutation)\s+(\w+)/)?.[1];
+    const variables = body.variables ?? {};
+
+    if (operation === "Issue") {
+      const issue = issues.get(variables.id);
+      if (!issue) {
+        return send(200, { errors: [{ message: "Entity not found" }] });
+      }
+      return send(200, { data: { issue: toResponse(issue) } });
+    }
+
+    if (operation === "IssueDetails") {
+      const issue = issues.get(variables.id);
+      if (!issue) {
+        return send(200, { errors: [{ message: "Entity not found" }] });
+      }
+      const { description, priority, dueDate } = issue;
+      const assignee =
+        USERS.find((user) => user.id === issue.assigneeId) ?? null;
+      return send(200, {
+        data: { issue: { description, priority, dueDate, assignee } },
+      });
+    }
+
+    if (operation === "Users") {
+      return send(200, { data: { users: { nodes: USERS } } });
+    }
+
+    if (operation === "IssueUpdate") {
+      const issue = issues.get(variables.id);
+      if (!issue) {
+        return send(200, { errors: [{ message: "Entity not found" }] });
+      }
+      if (variables.input.title) issue.title = variables.input.title;
+      if (variables.input.stateId) issue.stateId = variables.input.stateId;
+      for (const field of [
+        "description",
+        "priority",
+        "dueDate",
+        "assigneeId",
+      ]) {
+        if (field in variables.input) {
+          Object.assign(issue, { [field]: variables.input[field] });
+        }
+      }
+      return send(200, { data: { issueUpdate: { success: true } } });
+    }
+
+    if (operation === "AssignedIssues") {
+      const nodes = [...issues.values()]
+        .filter((issue) => issue.assigned)
+        .map(toResponse)
+        .filter(
+          (issue) => !["completed", "canceled"].includes(issue.state!.type),
+        );
+      return send(200, { data: { viewer: { assignedIssues: { nodes } } } });
+    }
+
+    if (operation === "TeamStates") {
+      return send(200, { data: { team: { states: { nodes: STATES } } } });
+    }
+
+    return send(200, {
+      errors: [{ message: `Unknown operation ${operation}` }],
+    });
+  });
+
+  return { ...fake, issues };
+}
+
+runIfMain(import.meta.url, createLinearFake, 4011);
@@ -0,0 +1,72 @@
+import http from "node:http";
+import { isMain } from "../../utils.ts";
+
+export type FakeServer = {
+  server: http.Server;
+  listen(port?: number): Promise<string>;
+  close(): Promise<void>;
+};
+
+type Handler = (
+  request: { method: string; url: URL; body: any; token: string | null },
+  send: (status: number, body: unknown) => void,
+) => void;
+
+export function createFakeServer(handler: Handler): FakeServer {
+  const server = http.createServer((req, res) => {
+    let raw = "";
+    req.on("data", (chunk) => (raw += chunk));
+    req.on("end", () => {
+      const send = (status: number, body: unknown) => {
+        res.writeHead(status, { "content-type": "application/json" });
+        res.end(JSON.stringify(body));
+      };
+
+      try {
+        handler(
+          {
+            method: req.method ?? "GET",
+            url: new URL(req.url ?? "/", "http://localhost"),
+            body: raw ? JSON.parse(raw) : null,
+            token: req.headers.authorization ?? null,
+          },
+          send,
+        );
+      } catch (e) {
+        send(500, { message: String(e) });
+      }
+    });
+  });
+
+  return {
+    server,
+    listen(port = 0) {
+      return new Promise((resolve) => {
+        server.listen(port, "127.0.0.1", () => {
+          const address = server.address();
+          const actual = typeof address === "object" ? address?.port : port;
+          resolve(`http://127.0.0.1:${actual}`);
+        });
+      });
+    },
+    close() {
+      return new Promise((resolve, reject) => {
+        server.close((error) => (error ? reject(error) : resolve()));
+      });
+    },
+  };
+}
+
+/**
+ * Starts the fake when the file is executed directly, so it can be used
+ * as the `api_url` of the tracker while working offline.
+ */
+export function runIfMain(url: string, fake: () => FakeServer, port: number) {
+  if (!isMain(url)) {
+    return;
+  }
+
+  fake()
+    .listen(Number(process.env.PORT) || port)
+    .then((address) => console.log(`listening on ${address}`));
+}
@@ -25,6 +25,10 @@ export class FileStore {
     }
   }
 
+  get path(): string {
+    return this._file;
+  }
+
   read(): string {
     if (this._content.length && this._memory) {
       return this._content;
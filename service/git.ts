@@ -0,0 +1,338 @@
+import { exec, execFile } from "node:child_process";
+import { promisify } from "node:util";
+
+const execAsync = promisify(exec);
+const execFileAsync = promisify(execFile);
+
+export type WorktreeStatus = {
+  staged: number;
+  dirty: number;
+  untracked: number;
+  upstream: string | null;
+  ahead: number;
+  behind: number;
+  lastCommit: number | null;
+  updatedAt: number;
+};
+
+export type ChangedFile = {
+  // Two letter `git status --short` code, index then worktree state
+  status: string;
+  path: string;
+};
+
+export type Commit = {
+  hash: string;
+  subject: string;
+  timestamp: number;
+};
+
+export type WorktreeDetails = {
+  files: ChangedFile[];
+  // Newest first, the first one is HEAD
+  commits: Commit[];
+  updatedAt: number;
+};
+
+export type Ref = {
+  // Short name, `origin/x` for remote branches and the hash for commits
+  name: string;
+  type: "branch" | "remote" | "tag" | "commit";
+  // Subject of commits
+  subject?: string;
+};
+
+export type DeleteRisks = {
+  // Null when `git status` failed, the changes can't be ruled out
+  uncommitted: number | null;
+  stashes: number;
+  unpushed: number;
+  unmerged: string | null;
+};
+
+export type Worktree = {
+  path: string;
+  branch: string | null;
+};
+
+export type Upstream = {
+  ref: string;
+  gone: boolean;
+};
+
+function countLines(output: string): number {
+  return output.split("\n").filter(Boolean).length;
+}
+
+function parseStatus(
+  porcelain: string,
+): Omit<WorktreeStatus, "lastCommit" | "updatedAt"> {
+  const status: Omit<WorktreeStatus, "lastCommit" | "updatedAt"> = {
+    staged: 0,
+    dirty: 0,
+    untracked: 0,
+    upstream: null,
+    ahead: 0,
+    behind: 0,
+  };
+
+  for (const line of porcelain.split("\n")) {
+    if (line.startsWith("# branch.upstream ")) {
+      status.upstream = line.replace("# branch.upstream ", "").trim();
+    } else if (line.startsWith("# branch.ab ")) {
+      const [ahead, behind] = line.replace("# branch.ab ", "").split(" ");
+      status.ahead = Math.abs(parseInt(ahead, 10)) || 0;
+      status.behind = Math.abs(parseInt(behind, 10)) || 0;
+    } else if (line.startsWith("? ")) {
+      status.untracked++;
+    } else if (/^[12u] /.test(line)) {
+      // Format: "<type> <XY> ...", X is the index and Y the worktree state
+      const [staged, unstaged] = line.slice(2, 4);
+      if (line.startsWith("u")) {
+        status.dirty++;
+        continue;
+      }
+      if (staged !== ".") status.staged++;
+      if (unstaged !== ".") status.dirty++;
+    }
+  }
+
+  return status;
+}
+
+export const Git: {
+  listWorktrees(): Promise<Worktree[]>;
+  getStatus(path: string): Promise<WorktreeStatus>;
+  getLastCommit(path: string): Promise<number | null>;
+  getDetails(path: string, commits?: number): Promise<WorktreeDetails>;
+  getChangedFiles(path: string): Promise<ChangedFile[]>;
+  getCommits(path: string, count: number): Promise<Commit[]>;
+  getRefs(commits?: number): Promise<Ref[]>;
+  resolveRef(ref: string): Promise<boolean>;
+  isValidBranchName(name: string): Promise<boolean>;
+  getUpstream(branch: string): Promise<Upstream | null>;
+  getDefaultBranch(): Promise<string>;
+  isMerged(branch: string, into: string): Promise<boolean>;
+  getDeleteRisks(path: string, branch: string): Promise<DeleteRisks>;
+  removeWorktree(path: string, force?: boolean): Promise<void>;
+  deleteBranch(branch: string): Promise<void>;
+  deleteRemoteBranch(branch: string): Promise<void>;
+} = {
+  async listWorktrees() {
+    const { stdout } = await execAsync("git worktree list --porcelain");
+    const worktrees: Worktree[] = [];
+
+    // Each worktree is a block of "key value" lines separated by a blank line
+    for (const block of stdout.split("\n\n")) {
+      const lines = block.split("\n");
+      const path = lines
+        .find((line) => line.startsWith("worktree "))
+        ?.replace("worktree ", "");
+      if (!path || lines.includes("bare")) {
+        continue;
+      }
+      const branch = lines
+        .find((line) => line.startsWith("branch "))
+        ?.replace("branch refs/heads/", "");
+      worktrees.push({ path, branch: branch ?? null });
+    }
+
+    return worktrees;
+  },
+
+  async getStatus(path) {
+    const [porcelain, lastCommit] = await Promise.all([
+      execAsync("git status --porcelain=v2 --branch", { cwd: path }),
+      this.getLastCommit(path),
+    ]);
+
+    return {
+      ...parseStatus(porcelain.stdout),
+      lastCommit,
+      updatedAt: Date.now(),
+    };
+  },
+
+  async getLastCommit(path) {
+    try {
+      const { stdout } = await execAsync("git log -1 --format=%ct", {
+        cwd: path,
+      });
+      const timestamp = parseInt(stdout.trim(), 10);
+      return Number.isFinite(timestamp) ? timestamp * 1000 : null;
+    } catch {
+      return null;
+    }
+  },
+
+  async getDetails(path, commits = 5) {
+    const [files, log] = await Promise.all([
+      this.getChangedFiles(path),
+      this.getCommits(path, commits),
+    ]);
+
+    return { files, commits: log, updatedAt: Date.now() };
+  },
+
+  async getChangedFiles(path) {
+    const { stdout } = await execAsync("git status --porcelain", {
+      cwd: path,
+    });
+
+    // Format: "XY path", renames show as "XY from -> to"
+    return stdout
+      .split("\n")
+      .filter(Boolean)
+      .map((line) => ({ status: line.slice(0, 2), path: line.slice(3) }));
+  },
+
+  async getCommits(path, count) {
+    try {
+      const { stdout } = await execAsync(
+        `git log -n ${count} --format=%h%x09%ct%x09%s`,
+        { cwd: path },
+      );
+      return stdout
+        .split("\n")
+        .filter(Boolean)
+        .map((line) => {
+          const [hash, timestamp, ...subject] = line.split("\t");
+          return {
+            hash,
+            subject: subject.join("\t"),
+            timestamp: parseInt(timestamp, 10) * 1000,
+          };
+        });
+    } catch {
+      // No commits yet
+      return [];
+    }
+  },
+
+  async getRefs(commits = 30) {
+    const [refs, log] = await Promise.all([
+      execAsync(
+        `git for-each-ref --format="%(refname)" refs/heads refs/remotes refs/tags`,
+      ),
+      execAsync(`git log --all -n ${commits} --format=%h%x09%s`).catch(() => ({
+        stdout: "",
+      })),
+    ]);
+
+    const result: Ref[] = [];
+    for (const refname of refs.stdout.split("\n").filter(Boolean)) {
+      const [, kind, name] = refname.match(/^refs\/(\w+)\/(.+)$/) ?? [];
+      if (kind === "heads") {
+        result.push({ name, type: "branch" });
+      } else if (kind === "remotes" && !name.endsWith("/HEAD")) {
+        result.push({ name, type: "remote" });
+      } else if (kind === "tags") {
+        result.push({ name, type: "tag" });
+      }
+    }
+    for (const line of log.stdout.split("\n").filter(Boolean)) {
+      const [hash, ...subject] = line.split("\t");
+      result.push({ name: hash, type: "commit", subject: subject.join("\t") });
+    }
+
+    return result;
+  },
+
+  async resolveRef(ref) {
+    // Typed by the user, so it doesn't go through a shell
+    try {
+      await execFileAsync("git", [
+        "rev-parse",
+        "--verify",
+        "--quiet",
+        "--end-of-options",
+        `${ref}^{commit}`,
+      ]);
+      return true;
+    } catch {
+      return false;
+    }
+  },
+
+  async isValidBranchName(name) {
+    try {
+      await execFileAsync("git", ["check-ref-format", "--branch", name]);
+      return true;
+    } catch {
+      return false;
+    }
+  },
+
+  async getUpstream(branch) {
+    const { stdout } = await execAsync(
+      `git for-each-ref --format="%(upstream:short) %(upstream:track)" refs/heads/${branch}`,
+    );
+    const [ref, track] = stdout.trim().split(" ");
+    if (!ref) return null;
+    return { ref, gone: track === "[gone]" };
+  },
+  async getDefaultBranch() {
+    try {
+      const { stdout } = await execAsync(
+        "git symbolic-ref --short refs/remotes/origin/HEAD",
+      );
+      return stdout.trim().replace(/^origin\//, "") || "master";
+    } catch {
+      return "master";
+    }
+  },
+
+  async isMerged(branch, into) {
+    try {
+      await execAsync(`git merge-base --is-ancestor ${branch} ${into}`);
+      return true;
+    } catch (e: any) {
+      // Exit code 1 means "not an ancestor", anything else is a real error
+      if (e.code === 1) return false;
+      throw e;
+    }
+  },
+
+  async getDeleteRisks(path, branch) {
+    const defaultBranch = `origin/${await this.getDefaultBranch()}`;
+
+    const [uncommitted, stashes, unpushed, merged] = await Promise.all([
+      execAsync("git status --porcelain", { cwd: path })
+        .then(({ stdout }) => countLines(stdout))
+        .catch(() => null),
+      execAsync("git stash list --format=%gs").then(
+        ({ stdout }) =>
+          stdout
+            .split("\n")
+            .filter(
+              (line) =>
+                line.startsWith(`WIP on ${branch}:`) ||
+                line.startsWith(`On ${branch}:`),
+            ).length,
+      ),
+      execAsync(`git rev-list --count ${branch} --not --remotes`).then(
+        ({ stdout }) => parseInt(stdout.trim(), 10) || 0,
+      ),
+      this.isMerged(branch, defaultBranch),
+    ]);
+
+    return {
+      uncommitted,
+      stashes,
+      unpushed,
+      unmerged: merged ? null : defaultBranch,
+    };
+  },
+
+  async removeWorktree(path, force = false) {
+    await execAsync(`git worktree remove ${force ? "--force " : ""}${path}`);
+  },
+
+  async deleteBranch(branch) {
+    await execAsync(`git branch -D ${branch}`);
+  },
+
+  async deleteRemoteBranch(branch) {
+    await execAsync(`git push origin :${branch}`);
+  },
+};
@@ -0,0 +1,215 @@
+import * as z from "zod";
+import { parse } from "yaml";
+import { type Task } from "../app.ts";
+import { Files } from "../files.ts";
+import { RequestError, parseResponse } from "./errors.ts";
+import type { TrackerProvider } from "./tracker.ts";
+
+const OPEN = "open";
+const CLOSED = "closed";
+
+const ConfigSchema = z.object({
+  github: z.object({
+    owner: z.string(),
+    repo: z.string(),
+    api_url: z.string().default("https://api.github.com"),
+    web_url: z.string().default("https://github.com"),
+    // Issue labels used as workflow states, in order
+    status_labels: z.array(z.string()).default(["in progress", "review"]),
+  }),
+});
+
+let Config: z.output<typeof ConfigSchema>["github"] | null = null;
+
+function getConfig() {
+  Config ??= ConfigSchema.parse(parse(Files.config.read())).github;
+  return Config;
+}
+
+const IssueResponseSchema = z.object({
+  number: z.number(),
+  title: z.string(),
+  state: z.enum([OPEN, CLOSED]),
+  labels: z.array(z.object({ name: z.string() })),
+  pull_request: z.unknown().optional(),
+  body: z.string().nullish(),
+  assignees: z.array(z.object({ login: z.string() })).default([]),
+});
+
+type IssueResponse = z.output<typeof IssueResponseSchema>;
+
+const UserResponseSchema = z.object({ login: z.string() });
+
+function getStatusLabel(issue: IssueResponse): string {
+  if (issue.state === CLOSED) {
+    return CLOSED;
+  }
+
+  const { status_labels } = getConfig();
+  const label = issue.labels.find((label) =>
+    status_labels.includes(label.name),
+  );
+  return label?.name ?? OPEN;
+}
+
+function toTask(issue: IssueResponse): Task {
+  const { owner, repo } = getConfig();
+  const label = getStatusLabel(issue);
+
+  return {
+    id: String(issue.number),
+    name: issue.title,
+    status: {
+      id: label,
+      label,
+    },
+    list: {
+      id: `${owner}/${repo}`,
+      name: repo,
+    },
+  };
+}
+
+export const Github: TrackerProvider & {
+  readonly _token?: string;
+  _request<T extends unknown>(url: string, init?: RequestInit): Promise<T>;
+} = {
+  name: "github",
+  tokenEnv: "GITHUB_TOKEN",
+  // Issues have no priority or due date
+  details: ["description", "assignees"],
+  _token: undefined,
+
+  setToken(token) {
+    // @ts-ignore
+    this._token = token;
+  },
+
+  async _request(url, init) {
+    if (!this._token) throw new Error("Missing token");
+    if (!url) throw new Error("Missing request url");
+
+    const { api_url } = getConfig();
+
+    const response = await fetch(`${api_url}${url}`, {
+      method: init?.method ?? "GET",
+      headers: {
+        "content-type": "application/json",
+        accept: "application/vnd.github+json",
+        authorization: `Bearer ${this._token}`,
+      },
+      body: init?.body,
+    });
+
+    const json = await parseResponse(response);
+    if (!response.ok) {
+      throw new RequestError(
+        json.message ?? response.statusText,
+        response.status,
+      );
+    }
+    return json;
+  },
+
+  async getTask(taskId) {
+    const { owner, repo } = getConfig();
+    const response = await this._request(
+      `/repos/${owner}/${repo}/issues/${taskId}`,
+    );
+    const issue = IssueResponseSchema.safeParse(response);
+    if (!issue.success) {
+      Files.error.append(
+        `Invalid issue response:\n${z.prettifyError(issue.error)}\nThe response was:\n${JSON.stringify(response, null, 2)}`,
+      );
+      throw new Error("Invalid issue response");
+    }
+    return toTask(issue.data);
+  },
+
+  async getTaskDetails(taskId) {
+    const { owner, repo } = getConfig();
+    const issue = IssueResponseSchema.parse(
+      await this._request(`/repos/${owner}/${repo}/issues/${taskId}`),
+    );
+    return {
+      description: issue.body ?? "",
+      assignees: issue.assignees.map((assignee) => assignee.login),
+      priority: null,
+      dueDate: null,
+    };
+  },
+
+  async updateTask(task) {
+    const { owner, repo, status_labels } = getConfig();
+    const body: Record<string, unknown> = {};
+
+    if (task.name) {
+      body.title = task.name;
+    }
+
+    if (task.description !== undefined) {
+      body.body = task.description;
+    }
+
+    if (task.assignees) {
+      body.assignees = task.assignees;
+    }
+
+    if (task.statusLabel) {
+      // Status labels are mutually exclusive, keep every other label
+      const issue = IssueResponseSchema.parse(
+        await this._request(`/repos/${owner}/${repo}/issues/${task.id}`),
+      );
+      const labels = issue.labels
+        .map((label) => label.name)
+        .filter((label) => !status_labels.includes(label));
+
+      if (task.statusLabel === CLOSED) {
+        body.state = CLOSED;
+      } else {
+        body.state = OPEN;
+        if (task.statusLabel !== OPEN) {
+          labels.push(task.statusLabel);
+        }
+      }
+      body.labels = labels;
+    }
+
+    await this._request(`/repos/${owner}/${repo}/issues/${task.id}`, {
+      method: "PATCH",
+      body: JSON.stringify(body),
+    });
+  },
+
+  async getTaskList() {
+    const { owner, repo } = getConfig();
+    // Only the issues assigned to the owner of the token
+    const { login } = UserResponseSchema.parse(await this._request("/user"));
+    const response = await this._request(
+      `/repos/${owner}/${repo}/issues?state=open&assignee=${encodeURIComponent(login)}`,
+    );
+    return z
+      .array(IssueResponseSchema)
+      .parse(response)
+      .filter((issue) => !issue.pull_request)
+      .map(toTask);
+  },
+
+  async getStatuses() {
+    const { status_labels } = getConfig();
+    return [
+      { id: OPEN, label: OPEN, type: "open" as const },
+      ...status_labels.map((label) => ({
+        id: label,
+        label,
+        type: "custom" as const,
+      })),
+      { id: CLOSED, label: CLOSED, type: "closed" as const },
+    ];
+  },
+
+  getTaskUrl(taskId) {
+    const { owner, repo, web_url } = getConfig();
+    return `${web_url}/${owner}/${repo}/issues/${taskId}`;
+  },
+};
@@ -2,13 +2,16 @@ type Job = { id: string; promise: Promise<void> };
 
 class JobRunner {
   private jobs = new Map<string, Job>();
+  private listeners: (() => void)[] = [];
 
   run(id: string, work: () => Promise<void>): void {
     if (this.jobs.has(id)) return;
     const promise = work().finally(() => {
       this.jobs.delete(id);
+      this.notify();
     });
     this.jobs.set(id, { id, promise });
+    this.notify();
   }
 
   has(id: string): boolean {
@@ -19,6 +22,15 @@ class JobRunner {
     return this.jobs.size;
   }
 
+  // Called whenever a job starts or settles
+  onChange(listener: () => void): void {
+    this.listeners.push(listener);
+  }
+
+  private notify(): void {
+    for (const listener of this.listeners) listener();
+  }
+
   async drain(): Promise<void> {
     await Promise.all([...this.jobs.values()].map((j) => j.promise));
   }
@@ -0,0 +1,282 @@
+import * as z from "zod";
+import { parse } from "yaml";
+import { Priorities, type Task } from "../app.ts";
+import { Files } from "../files.ts";
+import { RequestError, parseResponse } from "./errors.ts";
+import type { StatusType } from "../model/status.ts";
+import type { TrackerProvider } from "./tracker.ts";
+
+const ConfigSchema = z.object({
+  linear: z.object({
+    workspace: z.string(),
+    api_url: z.string().default("https://api.linear.app/graphql"),
+    web_url: z.string().default("https://linear.app"),
+  }),
+});
+
+let Config: z.output<typeof ConfigSchema>["linear"] | null = null;
+
+function getConfig() {
+  Config ??= ConfigSchema.parse(parse(Files.config.read())).linear;
+  return Config;
+}
+
+const StateSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  type: z.string(),
+  color: z.string().optional(),
+  position: z.number(),
+});
+
+// Linear workflow state types mapped to the shared status types
+const STATE_TYPES: Record<string, StatusType | undefined> = {
+  triage: "open",
+  backlog: "open",
+  unstarted: "open",
+  started: "custom",
+  completed: "done",
+  canceled: "closed",
+};
+
+const IssueSchema = z.object({
+  id: z.string(),
+  identifier: z.string(),
+  title: z.string(),
+  state: StateSchema,
+  team: z.object({
+    id: z.string(),
+    name: z.string(),
+  }),
+});
+
+const UserSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  displayName: z.string(),
+  email: z.string(),
+});
+
+const IssueDetailsSchema = z.object({
+  description: z.string().nullable(),
+  // 0 is no priority, then urgent to low like `Priorities`
+  priority: z.number(),
+  dueDate: z.string().nullable(),
+  assignee: UserSchema.nullable(),
+});
+
+const ISSUE_FIELDS = `
+  id
+  identifier
+  title
+  state { id name type position }
+  team { id name }
+`;
+
+function toTask(issue: z.output<typeof IssueSchema>): Task {
+  return {
+    id: issue.identifier,
+    name: issue.title,
+    status: {
+      id: issue.state.id,
+      label: issue.state.name,
+    },
+    list: issue.team,
+  };
+}
+
+export const Linear: TrackerProvider & {
+  readonly _token?: string;
+  _request<T extends unknown>(
+    query: string,
+    variables?: Record<string, unknown>,
+  ): Promise<T>;
+  _getIssue(taskId: string): Promise<z.output<typeof IssueSchema>>;
+} = {
+  name: "linear",
+  tokenEnv: "LINEAR_API_KEY",
+  details: ["description", "assignees", "priority", "dueDate"],
+  _token: undefined,
+
+  setToken(token) {
+    // @ts-ignore
+    this._token = token;
+  },
+
+  async _request(query, variables) {
+    if (!this._token) throw new Error("Missing token");
+
+    const response = await fetch(getConfig().api_url, {
+      method: "POST",
+      headers: {
+        "content-type": "application/json",
+        accept: "application/json",
+        authorization: this._token,
+      },
+      body: JSON.stringify({ query, variables }),
+    });
+
+    const json = await parseResponse(response);
+    if (json.errors?.length || !response.ok) {
+      throw new RequestError(
+        json.errors?.[0]?.message ?? response.statusText,
+        response.status,
+      );
+    }
+    return json.data;
+  },
+
+  async _getIssue(taskId) {
+    const response = await this._request<{ issue: unknown }>(
+      `query Issue($id: String!) { issue(id: $id) { ${ISSUE_FIELDS} } }`,
+      { id: taskId },
+    );
+    const issue = IssueSchema.safeParse(response.issue);
+    if (!issue.success) {
+      Files.error.append(
+        `Invalid issue response:\n${z.prettifyError(issue.error)}\nThe response was:\n${JSON.stringify(response, null, 2)}`,
+      );
+      throw new Error("Invalid issue response");
+    }
+    return issue.data;
+  },
+
+  async getTask(taskId) {
+    return toTask(await this._getIssue(taskId));
+  },
+
+  async getTaskDetails(taskId) {
+    const response = await this._request<{ issue: unknown }>(
+      `query IssueDetails($id: String!) {
+        issue(id: $id) {
+          description priority dueDate
+          assignee { id name displayName email }
+        }
+      }`,
+      { id: taskId },
+    );
+    const issue = IssueDetailsSchema.parse(response.issue);
+    return {
+      description: issue.description ?? "",
+      assignees: issue.assignee ? [issue.assignee.displayName] : [],
+      priority: Priorities[issue.priority - 1] ?? null,
+      dueDate: issue.dueDate,
+    };
+  },
+
+  async updateTask(task) {
+    const input: Record<string, unknown> = {};
+
+    if (task.name) {
+      input.title = task.name;
+    }
+
+    if (task.description !== undefined) {
+      input.description = task.description;
+    }
+
+    if (task.priority !== undefined) {
+      input.priority = task.priority
+        ? Priorities.indexOf(task.priority) + 1
+        : 0;
+    }
+
+    if (task.dueDate !== undefined) {
+      input.dueDate = task.dueDate;
+    }
+
+    if (task.assignees) {
+      if (task.assignees.length > 1) {
+        throw new Error("Linear issues have a single assignee");
+      }
+
+      const [name] = task.assignees;
+      input.assigneeId = null;
+      if (name) {
+        const response = await this._request<{ users: { nodes: unknown[] } }>(
+          `query Users { users { nodes { id name displayName email } } }`,
+        );
+        const user = z
+          .array(UserSchema)
+          .parse(response.users.nodes)
+          .find((user) =>
+            [user.displayName, user.name, user.email].includes(name),
+          );
+        if (!user) {
+          throw new Error(`Unknown assignee "${name}"`);
+        }
+        input.assigneeId = user.id;
+      }
+    }
+
+    if (task.statusLabel) {
+      // Linear updates by state id, labels are only unique within a team
+      const issue = await this._getIssue(task.id);
+      const statuses = await this.getStatuses(issue.team.id);
+      const status = statuses.find(
+        (status) =>
+          status.label.toLowerCase() === task.statusLabel?.toLowerCase(),
+      );
+      if (!status) {
+        throw new Error(`Unknown state "${task.statusLabel}"`);
+      }
+      input.stateId = status.id;
+    }
+
+    const response = await this._request<{
+      issueUpdate: { success: boolean };
+    }>(
+      `mutation IssueUpdate($id: String!, $input: IssueUpdateInput!) {
+        issueUpdate(id: $id, input: $input) { success }
+      }`,
+      { id: task.id, input },
+    );
+    if (!response.issueUpdate.success) {
+      throw new Error("Unable to update issue");
+    }
+  },
+
+  async getTaskList() {
+    const response = await this._request<{
+      viewer: { assignedIssues: { nodes: unknown[] } };
+    }>(
+      `query AssignedIssues {
+        viewer {
+          assignedIssues(filter: { state: { type: { nin: ["completed", "canceled"] } } }) {
+            nodes { ${ISSUE_FIELDS} }
+          }
+        }
+      }`,
+    );
+    return z
+      .array(IssueSchema)
+      .parse(response.viewer.assignedIssues.nodes)
+      .map(toTask);
+  },
+
+  async getStatuses(listId) {
+    const response = await this._request<{
+      team: { states: { nodes: unknown[] } };
+    }>(
+      `query TeamStates($id: String!) {
+        team(id: $id) { states { nodes { id name type color position } } }
+      }`,
+      { id: listId },
+    );
+    return z
+      .array(StateSchema)
+      .parse(response.team.states.nodes)
+      .toSorted((a, b) => a.position - b.position)
+      .map((state) => ({
+        id: state.id,
+        label: state.name,
+        color: state.color,
+        type: STATE_TYPES[state.type],
+      }));
+  },
+
+  getTaskUrl(taskId) {
+    const { workspace, web_url } = getConfig();
+    return `${web_url}/${workspace}/issue/${taskId}`;
+  },
+};
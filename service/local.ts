@@ -0,0 +1,130 @@
+import * as z from "zod";
+import yaml from "yaml";
+import { TaskSchema, type Task, type TaskDetails } from "../app.ts";
+import { Files } from "../files.ts";
+import { loadStatuses, saveStatuses, type Status } from "../model/status.ts";
+import type { TrackerProvider } from "./tracker.ts";
+
+const LIST = { id: "local", name: "local" };
+
+const EMPTY_DETAILS: TaskDetails = {
+  description: "",
+  assignees: [],
+  priority: null,
+  dueDate: null,
+};
+
+const DEFAULT_STATUSES: Status[] = [
+  { id: "todo", label: "todo", type: "open" },
+  { id: "in progress", label: "in progress", type: "custom" },
+  { id: "review", label: "review", type: "custom" },
+  { id: "done", label: "done", type: "done" },
+];
+
+function parseTasks(content: string): Task[] {
+  const result = z.array(TaskSchema).safeParse(yaml.parse(content));
+  return result.success ? result.data : [];
+}
+
+function readTasks(): Task[] {
+  const content = Files.localTasks.read();
+  if (content) {
+    return parseTasks(content);
+  }
+
+  // Local tasks used to share the cache of the worktree tasks
+  return parseTasks(Files.tasks.read()).filter(
+    (task) => task.list.id === LIST.id,
+  );
+}
+
+function writeTasks(tasks: Task[]) {
+  Files.localTasks.write(yaml.stringify(tasks));
+}
+
+/**
+ * Tracker without a remote service, tasks live in `local-tasks.yaml`, apart
+ * from the cache of the worktree tasks, and the statuses are the ones under
+ * the `local` list in `statuses.yaml`.
+ */
+export const Local: TrackerProvider = {
+  name: "local",
+  tokenEnv: null,
+  details: ["description", "assignees", "priority", "dueDate"],
+
+  setToken() {},
+
+  async getTask(taskId) {
+    const tasks = readTasks();
+    const task = tasks.find((task) => task.id === taskId);
+    if (task) {
+      return task;
+    }
+
+    const [status] = await this.getStatuses(LIST.id);
+    const created: Task = {
+      id: taskId,
+      name: taskId,
+      status: { id: status.id, label: status.label },
+      list: LIST,
+    };
+    writeTasks([...tasks, created]);
+    return created;
+  },
+
+  async getTaskDetails(taskId) {
+    const task = readTasks().find((task) => task.id === taskId);
+    if (!task) {
+      throw new Error(`Task ${taskId} not found`);
+    }
+    return task.details ?? EMPTY_DETAILS;
+  },
+
+  async updateTask(data) {
+    const tasks = readTasks();
+    const task = tasks.find((task) => task.id === data.id);
+    if (!task) {
+      throw new Error(`Task ${data.id} not found`);
+    }
+
+    if (data.name) {
+      task.name = data.name;
+    }
+
+    if (data.statusLabel) {
+      const statuses = await this.getStatuses(task.list.id);
+      const status = statuses.find(
+        (status) => status.label === data.statusLabel,
+      );
+      if (!status) {
+        throw new Error(`Unknown status "${data.statusLabel}"`);
+      }
+      task.status = { id: status.id, label: status.label };
+    }
+
+    const { id, name, statusLabel, ...details } = data;
+    if (Object.keys(details).length) {
+      task.details = { ...EMPTY_DETAILS, ...task.details, ...details };
+    }
+
+    writeTasks(tasks);
+  },
+
+  async getTaskList() {
+    return readTasks();
+  },
+
+  async getStatuses(listId) {
+    const statuses = loadStatuses();
+    if (statuses[listId]?.length) {
+      return statuses[listId];
+    }
+
+    saveStatuses({ ...statuses, [listId]: DEFAULT_STATUSES });
+    return DEFAULT_STATUSES;
+  },
+
+  getTaskUrl() {
+    return Files.localTasks.path;
+  },
+};
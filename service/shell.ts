@@ -0,0 +1,124 @@
+import * as z from "zod";
+import { execFile } from "node:child_process";
+import { writeFileSync } from "node:fs";
+import { basename } from "node:path";
+import { promisify } from "node:util";
+import { parse } from "yaml";
+import { Files } from "../files.ts";
+
+const execFileAsync = promisify(execFile);
+
+// Set by the shell function from `gw init`, the directory written to it is
+// cd'ed into once the app exits
+const CD_FILE_ENV = "GW_CD_FILE";
+
+export const SHELLS = ["bash", "zsh", "fish"] as const;
+
+export type Shell = (typeof SHELLS)[number];
+
+const OpenModeSchema = z.enum(["cd", "tmux-window", "tmux-pane"]);
+
+export type OpenMode = z.output<typeof OpenModeSchema>;
+
+const ConfigSchema = z.object({
+  open: OpenModeSchema.default("cd"),
+});
+
+let Config: z.output<typeof ConfigSchema> | null = null;
+
+function getConfig() {
+  Config ??= ConfigSchema.parse(parse(Files.config.read()) ?? {});
+  return Config;
+}
+
+function quote(shell: Shell, value: string): string {
+  if (shell === "fish") {
+    return `'${value.replace(/[\\']/g, "\\$&")}'`;
+  }
+  return `'${value.replace(/'/g, "'\\''")}'`;
+}
+
+function getPosixInit(command: string): string {
+  return `gw() {
+  local cd_file dir code
+  cd_file="$(mktemp "\${TMPDIR:-/tmp}/gw.XXXXXX")" || return
+  ${CD_FILE_ENV}="$cd_file" ${command} "$@"
+  code=$?
+  dir="$(cat "$cd_file")"
+  rm -f "$cd_file"
+  if [ -n "$dir" ] && [ -d "$dir" ]; then
+    cd "$dir" || return
+  fi
+  return $code
+}
+`;
+}
+
+function getFishInit(command: string): string {
+  return `function gw
+  set -l tmp_dir /tmp
+  set -q TMPDIR; and set tmp_dir $TMPDIR
+  set -l cd_file (mktemp "$tmp_dir/gw.XXXXXX"); or return
+  env ${CD_FILE_ENV}="$cd_file" ${command} $argv
+  set -l code $status
+  set -l dir (cat "$cd_file")
+  rm -f "$cd_file"
+  if test -n "$dir" -a -d "$dir"
+    cd "$dir"
+  end
+  return $code
+end
+`;
+}
+
+export const ShellIntegration: {
+  isShell(value: string): value is Shell;
+  getInit(shell: Shell): string;
+  isTmux(): boolean;
+  getOpenMode(): OpenMode;
+  /**
+   * Opens the worktree with the given mode, resolves with false when there is
+   * no shell function or tmux session to hand it to.
+   */
+  open(path: string, mode?: OpenMode): Promise<boolean>;
+} = {
+  isShell(value): value is Shell {
+    return SHELLS.includes(value as Shell);
+  },
+
+  getInit(shell) {
+    // Runs the app the same way it was started to print this
+    const command = [process.execPath, ...process.execArgv, process.argv[1]]
+      .map((part) => quote(shell, part))
+      .join(" ");
+    return shell === "fish" ? getFishInit(command) : getPosixInit(command);
+  },
+
+  isTmux() {
+    return !!process.env.TMUX;
+  },
+
+  getOpenMode() {
+    return getConfig().open;
+  },
+
+  async open(path, mode) {
+    mode ??= this.getOpenMode();
+    if (mode !== "cd" && this.isTmux()) {
+      await execFileAsync(
+        "tmux",
+        mode === "tmux-window"
+          ? ["new-window", "-c", path, "-n", basename(path)]
+          : ["split-window", "-c", path],
+      );
+      return true;
+    }
+
+    const file = process.env[CD_FILE_ENV];
+    if (!file) {
+      return false;
+    }
+    writeFileSync(file, path);
+    return true;
+  },
+};
@@ -0,0 +1,51 @@
+import * as z from "zod";
+import { parse } from "yaml";
+import { type Task, type TaskDetails } from "../app.ts";
+import { Files } from "../files.ts";
+import type { Status } from "../model/status.ts";
+import { Clickup } from "./clickup.ts";
+import { Github } from "./github.ts";
+import { Linear } from "./linear.ts";
+import { Local } from "./local.ts";
+
+export type TaskUpdate = { id: string } & Partial<
+  {
+    name: string;
+    statusLabel: string;
+  } & TaskDetails
+>;
+
+export type TrackerProvider = {
+  readonly name: string;
+  // Environment variable with the token, null when no token is needed
+  readonly tokenEnv: string | null;
+  setToken(token: string): void;
+  getTask(taskId: string): Promise<Task>;
+  // Details the tracker has, only these are edited
+  readonly details: (keyof TaskDetails)[];
+  getTaskDetails(taskId: string): Promise<TaskDetails>;
+  updateTask(data: TaskUpdate): Promise<void>;
+  getTaskList(): Promise<Task[]>;
+  getStatuses(listId: string): Promise<Status[]>;
+  getTaskUrl(taskId: string): string;
+};
+
+const Providers = {
+  clickup: Clickup,
+  github: Github,
+  linear: Linear,
+  local: Local,
+} satisfies Record<string, TrackerProvider>;
+
+const TrackerConfigSchema = z.object({
+  tracker: z
+    .enum(Object.keys(Providers) as [keyof typeof Providers])
+    .default("clickup"),
+});
+
+function loadTracker(): TrackerProvider {
+  const config = TrackerConfigSchema.parse(parse(Files.config.read()) ?? {});
+  return Providers[config.tracker];
+}
+
+export const Tracker: TrackerProvider = loadTracker();
@@ -0,0 +1,80 @@
+import { after, before, test } from "node:test";
+import assert from "node:assert/strict";
+import { Keys } from "../keys.ts";
+import { startApp, type Harness } from "./harness.ts";
+
+let app: Harness;
+
+before(async () => {
+  app = await startApp({
+    worktrees: [
+      { path: "/work/master", branch: "master" },
+      { path: "/work/abc1", branch: "abc1" },
+    ],
+  });
+});
+
+after(() => app.stop());
+
+test("lists the worktrees", () => {
+  assert.match(app.screen(), /\[master\]/);
+  assert.match(app.screen(), /abc1/);
+});
+
+test("opens the add form", async () => {
+  await app.press("a");
+
+  const screen = app.screen();
+  assert.match(screen, /Worktree\/add/);
+  assert.match(screen, /branch:/);
+  assert.match(screen, /create:\[NO \]/);
+});
+
+test("uses the branch as path and commit placeholder", async () => {
+  await app.type("feature");
+
+  const screen = app.screen();
+  assert.match(screen, /branch: feature/);
+  assert.match(screen, /path:\[feature\s*\]/);
+  assert.match(screen, /commit:\[feature\s*\]/);
+});
+
+test("edits at the cursor and scrolls long values", async () => {
+  await app.press(Keys.ARROW_LEFT, Keys.ARROW_LEFT, Keys.ARROW_LEFT);
+  await app.type("-login-form-");
+  await app.press(Keys.DELETE);
+
+  // Only the end of the branch fits and the cursor is kept in view
+  assert.match(app.screen(), /branch: at-login-form-r\s/);
+
+  await app.press("\u0015");
+  await app.type("feat");
+  await app.press("\u000b");
+  assert.match(app.screen(), /branch: feat\s/);
+  assert.match(app.screen(), /path:\[feat\s*\]/);
+});
+
+test("toggles create with space", async () => {
+  await app.press(Keys.TAB, Keys.SPACE);
+
+  assert.match(app.screen(), /create: YES/);
+});
+
+test("rejects worktrees that already exist", async () => {
+  await app.press(Keys.SHIFT_TAB, ...Array(4).fill(Keys.BACKSPACE));
+  await app.type("abc1");
+
+  // Shown under the path, which defaults to the branch
+  assert.match(app.screen(), /path:\[abc1\s*\]\n\s+worktree already exists/);
+
+  await app.press(Keys.ENTER);
+  assert.match(app.screen(), /Worktree\/add/);
+});
+
+test("goes back to the list with esc", async () => {
+  await app.press(Keys.ESC);
+
+  const screen = app.screen();
+  assert.doesNotMatch(screen, /Worktree\/add/);
+  assert.match(screen, /\[a\]add/);
+});
@@ -0,0 +1,80 @@
+import { after, before, test } from "node:test";
+import assert from "node:assert/strict";
+import { execSync } from "node:child_process";
+import { setTimeout } from "node:timers/promises";
+import { Keys } from "../keys.ts";
+import { createRepository, startApp, type Harness } from "./harness.ts";
+
+let app: Harness;
+
+before(async () => {
+  const worktrees = createRepository(["t1"]);
+  const git = (command: string) =>
+    execSync(`git ${command}`, { cwd: worktrees[0].path, stdio: "pipe" });
+  git("branch feature-login");
+  git("push -q origin HEAD:refs/heads/remote-only");
+  git("fetch -q origin");
+  git("tag v1.0");
+
+  app = await startApp({ worktrees });
+});
+
+after(() => app.stop());
+
+test("suggests branches as the branch is typed", async () => {
+  await app.press("a");
+  await app.type("feat");
+
+  const screen = await app.waitFor("feature-login local");
+  assert.match(screen, /branch: feat\s/);
+});
+
+test("fills in the suggestion with tab", async () => {
+  await app.press(Keys.TAB);
+
+  const screen = app.screen();
+  assert.match(screen, /branch: feature-login/);
+  assert.doesNotMatch(screen, /feature-login local/);
+});
+
+test("suggests remote branches by name", async () => {
+  await app.press("\u0015");
+  await app.type("remote");
+
+  await app.waitFor("remote-only origin");
+  await app.press(Keys.TAB);
+  assert.match(app.screen(), /branch: remote-only/);
+});
+
+test("can't create from a ref that doesn't resolve", async () => {
+  await app.press("\u0015");
+  await app.type("typo");
+  await app.press(Keys.ENTER);
+
+  assert.match(app.screen(), /Worktree\/add/);
+});
+
+test("suggests tags and commits for the commit", async () => {
+  await app.press("\u0015", Keys.TAB, Keys.TAB, Keys.TAB);
+  await app.type("v1");
+
+  await app.waitFor("v1.0 tag");
+  await app.press(Keys.BACKSPACE, Keys.BACKSPACE);
+  await app.type("init");
+  await app.waitFor(/\w{7} init/);
+});
+
+test("checks refs git resolves but doesn't list", async () => {
+  await app.press("\u0015");
+  await app.type("HEAD~0");
+  await app.press(Keys.SHIFT_TAB, Keys.SHIFT_TAB, Keys.SHIFT_TAB);
+  await app.type("from-head");
+
+  // Resolved in the background, creating is allowed once it is done
+  const end = Date.now() + 2000;
+  while (app.screen().includes("Worktree/add") && Date.now() < end) {
+    await setTimeout(20);
+    await app.press(Keys.ENTER);
+  }
+  await app.waitFor("adding worktree from-head");
+});
@@ -0,0 +1,27 @@
+import { after, before, test } from "node:test";
+import assert from "node:assert/strict";
+import { startApp, type Harness } from "./harness.ts";
+
+let app: Harness;
+
+before(async () => {
+  app = await startApp({
+    worktrees: ["t1", "solo-docs", "master"].map((branch) => ({
+      path: `/work/${branch}`,
+      branch,
+    })),
+    config: {
+      tracker: "local",
+      branches: { templates: ["{type}/{task_id}"] },
+    },
+  });
+});
+
+after(() => app.stop());
+
+test("keeps the default pinned branches with a partial config", () => {
+  const listed = [...app.screen().matchAll(/^ {2}[[ ]([\w-]+)[\] ]/gm)].map(
+    (match) => match[1],
+  );
+  assert.deepEqual(listed, ["master", "solo-docs", "t1"]);
+});
@@ -0,0 +1,52 @@
+import { before, test } from "node:test";
+import assert from "node:assert/strict";
+import { createDataFolder } from "./harness.ts";
+
+let Branch: typeof import("../model/branch.ts");
+
+before(async () => {
+  // The default `exclude` holds the default `type`
+  createDataFolder({
+    tracker: "local",
+    branches: {
+      templates: ["{type}/{task_id}-{slug(name)}", "{task_id}"],
+      task_id: "[0-9a-z]{8,9}",
+    },
+  });
+
+  Branch = await import("../model/branch.ts");
+});
+
+test("renders a branch with the first template", () => {
+  assert.equal(
+    Branch.renderBranch({ task_id: "86abc123", name: "Login form" }),
+    "feat/86abc123-login-form",
+  );
+  assert.equal(
+    Branch.renderBranch({ task_id: "86abc123", name: "Fix it", type: "fix" }),
+    "fix/86abc123-fix-it",
+  );
+});
+
+test("reads the task id back from a rendered branch", () => {
+  const branch = Branch.renderBranch({ task_id: "86abc123", name: "Login" });
+  assert.equal(Branch.getTaskId(branch), "86abc123");
+  assert.equal(Branch.getTaskId("chore/86abc124-docs"), "86abc124");
+});
+
+test("recognizes branches with any of the templates", () => {
+  assert.equal(Branch.getTaskId("86abc123"), "86abc123");
+  assert.equal(Branch.getTaskId("86abc"), null);
+  assert.equal(Branch.getTaskId("feat/86abc123"), null);
+});
+
+test("skips excluded branches outside of their type", () => {
+  assert.equal(Branch.getTaskId("master"), null);
+  assert.equal(Branch.getTaskId("featured1"), null);
+  assert.equal(Branch.getTaskId("feat/86abc123-mob-session"), null);
+});
+
+test("slugs names for branches", () => {
+  assert.equal(Branch.slug("  Crème brûlée: v2! "), "creme-brulee-v2");
+  assert.equal(Branch.slug("a".repeat(39) + " b"), "a".repeat(39));
+});
@@ -0,0 +1,56 @@
+import { after, before, test } from "node:test";
+import assert from "node:assert/strict";
+import { existsSync, writeFileSync } from "node:fs";
+import { join } from "node:path";
+import { Keys } from "../keys.ts";
+import type { Worktree } from "../service/git.ts";
+import { createRepository, startApp, type Harness } from "./harness.ts";
+
+let app: Harness;
+let worktrees: Worktree[];
+
+before(async () => {
+  // Every worktree starts from a commit older than `stale_days`
+  const date = new Date(Date.now() - 10 * 24 * 60 * 60 * 1000).toISOString();
+  process.env.GIT_COMMITTER_DATE = date;
+  worktrees = createRepository(["t1", "t2"]);
+  delete process.env.GIT_COMMITTER_DATE;
+
+  writeFileSync(join(worktrees[2].path, "notes.txt"), "draft");
+  app = await startApp({
+    worktrees,
+    config: { tracker: "local", cleanup: { stale_days: 7 } },
+  });
+});
+
+after(() => app.stop());
+
+test("lists stale worktrees with the work they would lose", async () => {
+  await app.press("C");
+
+  const screen = await app.waitFor("t2:", 5000);
+  assert.match(screen, /Worktree\/cleanup/);
+  assert.match(
+    screen,
+    /t1: NO {3}merged into origin\/master, untouched for 1w$/m,
+  );
+  assert.match(screen, /t2:\[NO \] .*untouched for 1w ⚠ 1 uncommitted changes/);
+  assert.doesNotMatch(screen, /master:/);
+});
+
+test("skips worktrees with unsaved work", async () => {
+  await app.press(Keys.SPACE, "j", Keys.SPACE, Keys.ENTER);
+
+  await app.waitFor("skipped 1 with unsaved work", 5000);
+  assert.ok(!existsSync(worktrees[1].path));
+  assert.ok(existsSync(worktrees[2].path));
+});
+
+test("removes them when forced", async () => {
+  await app.press("C");
+  await app.waitFor("t2:", 5000);
+  await app.press(Keys.SPACE, "f");
+
+  await app.waitFor(/cleaned up 1 of 1 worktrees$/m, 5000);
+  assert.ok(!existsSync(worktrees[2].path));
+});
@@ -0,0 +1,98 @@
+import { before, test } from "node:test";
+import assert from "node:assert/strict";
+import { execSync, spawnSync } from "node:child_process";
+import { existsSync, writeFileSync } from "node:fs";
+import { join } from "node:path";
+import { fileURLToPath } from "node:url";
+import type { Worktree } from "../service/git.ts";
+import { createDataFolder, createRepository } from "./harness.ts";
+
+const INDEX = fileURLToPath(new URL("../index.ts", import.meta.url));
+
+let worktrees: Worktree[];
+let home: string;
+
+before(() => {
+  worktrees = createRepository(["t1", "t2", "t3"]);
+  home = createDataFolder({ tracker: "local" });
+  writeFileSync(join(worktrees[2].path, "notes.txt"), "draft");
+});
+
+// Runs a command from the main worktree
+function gw(...args: string[]) {
+  return spawnSync(
+    process.execPath,
+    ["--experimental-strip-types", INDEX, ...args],
+    {
+      cwd: worktrees[0].path,
+      env: { ...process.env, HOME: home },
+      encoding: "utf8",
+      timeout: 10000,
+    },
+  );
+}
+
+const hasBranch = (branch: string) =>
+  execSync(`git branch --list ${branch}`, { cwd: worktrees[0].path })
+    .toString()
+    .trim() !== "";
+
+test("lists the worktrees as JSON", () => {
+  const result = gw("list", "--json");
+
+  assert.equal(result.status, 0);
+  const listed = JSON.parse(result.stdout);
+  assert.deepEqual(
+    listed.map((worktree: any) => [worktree.name, worktree.branch]),
+    [
+      ["master", "master"],
+      ["t1", "t1"],
+      ["t2", "t2"],
+      ["t3", "t3"],
+    ],
+  );
+  assert.equal(listed[2].status.untracked, 1);
+});
+
+test("writes errors as JSON", () => {
+  const result = gw("rm", "nope", "--json");
+
+  assert.equal(result.status, 1);
+  assert.deepEqual(JSON.parse(result.stdout), {
+    error: 'worktree "nope" not found',
+  });
+});
+
+test("refuses to remove a worktree with unsaved work", () => {
+  const result = gw("rm", "t2");
+
+  assert.equal(result.status, 1);
+  assert.match(result.stderr, /work will be lost \(1 uncommitted changes\)/);
+  assert.ok(existsSync(worktrees[2].path));
+});
+
+test("removes it with --force", () => {
+  const result = gw("rm", "t2", "--force");
+
+  assert.equal(result.status, 0);
+  assert.equal(result.stdout, "worktree t2 deleted\n");
+  assert.ok(!existsSync(worktrees[2].path));
+  assert.ok(hasBranch("t2"));
+});
+
+test("removes it with --force when the check fails", () => {
+  execSync("git remote remove origin", { cwd: worktrees[0].path });
+
+  const refused = gw("rm", "t3", "--branch");
+  assert.equal(refused.status, 1);
+  assert.match(refused.stderr, /unable to check for unsaved work/);
+  assert.ok(existsSync(worktrees[3].path));
+
+  const result = gw("rm", "t3", "--branch", "--force", "--json");
+  assert.equal(result.status, 0);
+  assert.deepEqual(JSON.parse(result.stdout).warnings, [
+    "unable to check for unsaved work",
+  ]);
+  assert.ok(!existsSync(worktrees[3].path));
+  assert.ok(!hasBranch("t3"));
+});
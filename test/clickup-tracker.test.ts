@@ -0,0 +1,105 @@
+import { after, before, test } from "node:test";
+import assert from "node:assert/strict";
+import { createClickupFake } from "../service/fakes/clickup.ts";
+import { createDataFolder } from "./harness.ts";
+
+const fake = createClickupFake();
+
+let Clickup: typeof import("../service/clickup.ts").Clickup;
+
+before(async () => {
+  createDataFolder({
+    tracker: "clickup",
+    team_id: 1,
+    project_id: 1,
+    folder_id: 1,
+    space_id: 1,
+    api_url: await fake.listen(),
+  });
+
+  // Loaded through the tracker, which imports every provider
+  await import("../service/tracker.ts");
+  ({ Clickup } = await import("../service/clickup.ts"));
+  Clickup.setToken("token");
+});
+
+after(() => fake.close());
+
+test("reads the details of a task", async () => {
+  assert.deepEqual(await Clickup.getTaskDetails("86a1"), {
+    description: "Email and password, with a link to reset it.",
+    assignees: ["ada"],
+    priority: "high",
+    dueDate: "2026-11-01",
+  });
+  assert.deepEqual(await Clickup.getTaskDetails("86a2"), {
+    description: "",
+    assignees: [],
+    priority: null,
+    dueDate: null,
+  });
+});
+
+test("updates only the changed fields", async () => {
+  await Clickup.updateTask({
+    id: "86a1",
+    priority: "urgent",
+    dueDate: "2026-12-24",
+  });
+
+  const task = fake.tasks.get("86a1")!;
+  assert.equal(task.priority, 1);
+  assert.equal(task.dueDate, Date.parse("2026-12-24"));
+  assert.equal(task.name, "Login form");
+  assert.equal(
+    task.description,
+    "Email and password, with a link to reset it.",
+  );
+  assert.equal(task.statusId, "st-todo");
+});
+
+test("clears the priority and the due date", async () => {
+  await Clickup.updateTask({ id: "86a1", priority: null, dueDate: null });
+
+  const details = await Clickup.getTaskDetails("86a1");
+  assert.equal(details.priority, null);
+  assert.equal(details.dueDate, null);
+});
+
+test("adds and removes assignees by member id", async () => {
+  // Members without a username go by their email
+  await Clickup.updateTask({ id: "86a1", assignees: ["alan@example.com"] });
+  assert.deepEqual(fake.tasks.get("86a1")!.assigneeIds, [2]);
+
+  await Clickup.updateTask({
+    id: "86a1",
+    assignees: ["alan@example.com", "ada"],
+  });
+  assert.deepEqual(fake.tasks.get("86a1")!.assigneeIds, [2, 1]);
+
+  await assert.rejects(
+    Clickup.updateTask({ id: "86a1", assignees: ["grace"] }),
+    /Unknown assignee "grace"/,
+  );
+  assert.deepEqual(fake.tasks.get("86a1")!.assigneeIds, [2, 1]);
+});
+
+test("updates the name, status and description", async () => {
+  await Clickup.updateTask({
+    id: "86a2",
+    name: "Dark theme",
+    statusLabel: "complete",
+    description: "Follows the system setting.",
+  });
+
+  assert.deepEqual(await Clickup.getTask("86a2"), {
+    id: "86a2",
+    name: "Dark theme",
+    status: { id: "st-done", label: "complete" },
+    list: { id: "list-1", name: "Sprint" },
+  });
+  assert.equal(
+    (await Clickup.getTaskDetails("86a2")).description,
+    "Follows the system setting.",
+  );
+});
@@ -0,0 +1,48 @@
+import { after, before, test } from "node:test";
+import assert from "node:assert/strict";
+import { execSync } from "node:child_process";
+import { existsSync } from "node:fs";
+import { Keys } from "../keys.ts";
+import type { Worktree } from "../service/git.ts";
+import { createRepository, startApp, type Harness } from "./harness.ts";
+
+let app: Harness;
+let worktrees: Worktree[];
+
+const git = (command: string) =>
+  execSync(`git ${command}`, { cwd: worktrees[1].path, encoding: "utf8" });
+
+before(async () => {
+  worktrees = createRepository(["t1"]);
+  git("commit -q --allow-empty -m wip");
+  // Without `origin/master` the check for unsaved work fails
+  git("remote remove origin");
+  app = await startApp({ worktrees, columns: 140 });
+});
+
+after(() => app.stop());
+
+test("warns that the check failed", async () => {
+  await app.press("j", "d");
+
+  const screen = await app.waitFor("are you sure?");
+  assert.match(screen, /unable to check for unsaved work/);
+});
+
+test("asks to force before deleting the branch", async () => {
+  await app.press("y", "y");
+
+  const screen = app.screen();
+  assert.match(screen, /Worktree\/delete-force/);
+  assert.match(
+    screen,
+    /work will be lost, force delete\? ⚠ unable to check for unsaved work/,
+  );
+});
+
+test("keeps the worktree and the branch when cancelled", async () => {
+  await app.press(Keys.ESC);
+
+  assert.ok(existsSync(worktrees[1].path));
+  assert.match(git("branch --list t1"), /t1/);
+});
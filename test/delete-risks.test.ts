@@ -0,0 +1,19 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { writeFileSync } from "node:fs";
+import { join } from "node:path";
+import { Git } from "../service/git.ts";
+import { getRiskWarnings } from "../model/worktree.ts";
+import { createRepository } from "./harness.ts";
+
+test("warns when the changes of a worktree can't be checked", async () => {
+  const [, t1] = createRepository(["t1"]);
+  // Git no longer recognizes the folder as a worktree
+  writeFileSync(join(t1.path, ".git"), "gitdir: /missing");
+
+  const risks = await Git.getDeleteRisks(t1.path, "t1");
+  assert.equal(risks.uncommitted, null);
+  assert.deepEqual(getRiskWarnings(risks, "worktree"), [
+    "unable to check uncommitted changes",
+  ]);
+});
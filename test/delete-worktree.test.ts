@@ -0,0 +1,56 @@
+import { after, before, test } from "node:test";
+import assert from "node:assert/strict";
+import { existsSync, writeFileSync } from "node:fs";
+import { join } from "node:path";
+import { Keys } from "../keys.ts";
+import type { Worktree } from "../service/git.ts";
+import { createRepository, startApp, type Harness } from "./harness.ts";
+
+let app: Harness;
+let worktrees: Worktree[];
+
+before(async () => {
+  worktrees = createRepository(["t1", "t2"]);
+  writeFileSync(join(worktrees[2].path, "notes.txt"), "draft");
+  app = await startApp({ worktrees });
+});
+
+after(() => app.stop());
+
+test("warns about uncommitted changes", async () => {
+  await app.press("j", "j", "d");
+
+  const screen = await app.waitFor("are you sure?");
+  assert.match(screen, /Worktree\/delete-worktree/);
+  assert.match(screen, /1 uncommitted changes/);
+});
+
+test("asks to force when work would be lost", async () => {
+  await app.press("y");
+  assert.match(app.screen(), /delete branch\?/);
+
+  await app.press("n");
+  assert.match(app.screen(), /Worktree\/delete-force/);
+  assert.match(app.screen(), /work will be lost, force delete\?/);
+});
+
+test("cancels without deleting", async () => {
+  await app.press(Keys.ESC);
+
+  const screen = app.screen();
+  assert.match(screen, /\[a\]add/);
+  assert.match(screen, /t2/);
+  assert.ok(existsSync(worktrees[2].path));
+});
+
+test("deletes a clean worktree without asking to force", async () => {
+  await app.press("k", "d");
+  await app.waitFor("are you sure?");
+  assert.doesNotMatch(app.screen(), /uncommitted/);
+
+  await app.press("y", "n");
+  await app.waitFor("worktree [t1] deleted", 5000);
+
+  assert.doesNotMatch(app.screen(), /^\s+t1\s/m);
+  assert.ok(!existsSync(worktrees[1].path));
+});
@@ -0,0 +1,71 @@
+import { after, before, test } from "node:test";
+import assert from "node:assert/strict";
+import { execSync } from "node:child_process";
+import { writeFileSync } from "node:fs";
+import { join } from "node:path";
+import { createRepository, startApp, type Harness } from "./harness.ts";
+
+let app: Harness;
+
+before(async () => {
+  const worktrees = createRepository(["t1", "solo-docs"]);
+  const t1 = worktrees[1].path;
+  writeFileSync(join(t1, "login.ts"), "export {};");
+  execSync("git add login.ts && git commit -q -m 'Add login form'", {
+    cwd: t1,
+  });
+  writeFileSync(join(t1, "notes.txt"), "draft");
+
+  app = await startApp({
+    worktrees,
+    columns: 140,
+    tasks: [
+      {
+        id: "t1",
+        name: "Fix the login redirect after the session expires",
+        status: { id: "todo", label: "todo" },
+        list: { id: "backend", name: "backend" },
+      },
+    ],
+  });
+});
+
+after(() => app.stop());
+
+test("shows the selected worktree next to the list", async () => {
+  await app.press("r", "J", "i");
+
+  const screen = await app.waitFor("Add login form");
+  assert.match(screen, /│ head\s+\w+ Add login form/);
+  assert.match(screen, /│ upstream origin\/master ↑1 ↓0/);
+  assert.match(screen, /│ changes\s+1 files/);
+  assert.match(screen, /│ {3}\?\? notes\.txt/);
+  assert.match(screen, /│ task\s+t1/);
+  assert.match(screen, /│ Fix the login redirect after the session expires/);
+  assert.match(screen, /│ status\s+todo/);
+  assert.match(screen, /│ list\s+backend/);
+  assert.match(screen, /│ commits/);
+});
+
+test("follows the selection", async () => {
+  await app.press("k");
+
+  const screen = await app.waitFor(/│ solo-docs/);
+  assert.match(screen, /│ head\s+\w+ init/);
+  assert.match(screen, /│ changes\s+clean/);
+  assert.doesNotMatch(screen, /│ task/);
+});
+
+test("hides when toggled again", async () => {
+  await app.press("i");
+
+  assert.doesNotMatch(app.screen(), /│/);
+});
+
+test("can't open in a narrow terminal", async () => {
+  app.terminal.resize(80, 30);
+  await app.waitFor(/^\s*\[solo-docs\]/m);
+  await app.press("i");
+
+  assert.doesNotMatch(app.screen(), /│/);
+});
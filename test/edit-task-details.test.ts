@@ -0,0 +1,56 @@
+import { after, before, test } from "node:test";
+import assert from "node:assert/strict";
+import { setTimeout } from "node:timers/promises";
+import { Keys } from "../keys.ts";
+import type { TaskDetails } from "../app.ts";
+import { startApp, type Harness } from "./harness.ts";
+
+let app: Harness;
+// Details requested by task id, answered by the tests
+const pending: Record<string, (details: TaskDetails) => void> = {};
+
+const details = (description: string): TaskDetails => ({
+  description,
+  assignees: [],
+  priority: null,
+  dueDate: null,
+});
+
+before(async () => {
+  app = await startApp({
+    worktrees: ["master", "t1", "t2"].map((branch) => ({
+      path: `/work/${branch}`,
+      branch,
+    })),
+    tasks: ["t1", "t2"].map((id) => ({
+      id,
+      name: `Task ${id}`,
+      status: { id: "todo", label: "todo" },
+      list: { id: "local", name: "local" },
+    })),
+  });
+
+  const { Tracker } = await import("../service/tracker.ts");
+  Tracker.getTaskDetails = (taskId) =>
+    new Promise((resolve) => (pending[taskId] = resolve));
+});
+
+after(() => app.stop());
+
+test("ignores details loaded for a task no longer edited", async () => {
+  await app.press("j", "e");
+  assert.match(app.screen(), /loading task details/);
+  await app.press(Keys.ESC, "j", "e");
+  assert.ok(pending.t2, "loads the details of the second task");
+
+  pending.t2(details("second task"));
+  await app.waitFor("description:[second task");
+  pending.t1(details("first task"));
+  await setTimeout(20);
+  await app.press(Keys.TAB);
+
+  const screen = app.screen();
+  assert.match(screen, /▓ Task t2/);
+  assert.match(screen, /description:\[second task/);
+  assert.doesNotMatch(screen, /first task/);
+});
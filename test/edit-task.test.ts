@@ -0,0 +1,140 @@
+import { after, before, test } from "node:test";
+import assert from "node:assert/strict";
+import { readFileSync } from "node:fs";
+import { join } from "node:path";
+import { Keys } from "../keys.ts";
+import { startApp, type Harness } from "./harness.ts";
+
+let app: Harness;
+
+before(async () => {
+  app = await startApp({
+    worktrees: [
+      { path: "/work/master", branch: "master" },
+      { path: "/work/t1", branch: "t1" },
+    ],
+    tasks: [
+      {
+        id: "t1",
+        name: "Fix login",
+        status: { id: "todo", label: "todo" },
+        list: { id: "local", name: "local" },
+      },
+    ],
+  });
+});
+
+after(() => app.stop());
+
+test("shows the task of the selected worktree", async () => {
+  await app.press("j", "e");
+
+  const screen = app.screen();
+  assert.match(screen, /Worktree\/edit-task/);
+  assert.match(screen, /▓ Fix login/);
+  assert.match(screen, /▓ t1  todo/);
+  assert.match(screen, /name: Fix login$/m);
+});
+
+test("starts from the current status", async () => {
+  await app.press(Keys.TAB);
+
+  assert.match(await app.waitFor(/status: todo/), /status: todo/);
+});
+
+test("renames the task and changes its status", async () => {
+  await app.press(Keys.SHIFT_TAB);
+  await app.type(" page");
+  await app.press(Keys.TAB, "j");
+  assert.match(app.screen(), /name:\[Fix login page\s*\]/);
+  assert.match(app.screen(), /status: in progress/);
+
+  await app.press(Keys.ENTER);
+  const changes = app.screen();
+  assert.match(changes, /Worktree\/save-task/);
+  assert.match(changes, /name\s+Fix login → Fix login page/);
+  assert.match(changes, /status\s+todo → in progress/);
+  assert.doesNotMatch(changes, /priority|description/);
+
+  await app.press(Keys.ENTER);
+  const screen = await app.waitFor("task updated!");
+  assert.match(screen, /^ Worktree$/m);
+  assert.match(screen, /in progress/);
+
+  const saved = readFileSync(join(app.home, ".local/share/gw-app/tasks.yaml"));
+  assert.match(saved.toString(), /name: Fix login page/);
+  assert.match(saved.toString(), /label: in progress/);
+});
+
+test("edits the details of the task", async () => {
+  await app.press("e");
+  await app.waitFor("description:");
+  await app.press(Keys.TAB, Keys.TAB);
+  await app.type("ada, alan");
+  await app.press(Keys.TAB, "j", "j", Keys.TAB);
+  await app.type("2026-11-01");
+  await app.press(Keys.TAB);
+  await app.type("Redirect back");
+  await app.press(Keys.ENTER);
+  await app.type("after login");
+
+  const screen = app.screen();
+  assert.match(screen, /assignees:\[ada, alan\s*\]/);
+  assert.match(screen, /priority:\[high\s+▾\]\s+due:\[2026-11-01\s*\]/);
+  assert.match(screen, /description: Redirect back\n\s+after login/);
+  // Enter breaks the line instead of saving
+  assert.match(screen, /Worktree\/edit-task/);
+});
+
+test("shows the changes before saving them", async () => {
+  await app.press(Keys.SHIFT_TAB, Keys.ENTER);
+
+  const screen = app.screen();
+  assert.match(screen, /Worktree\/save-task/);
+  assert.match(screen, /assignees\s+none → ada, alan/);
+  assert.match(screen, /priority\s+none → high/);
+  assert.match(screen, /due\s+none → 2026-11-01/);
+  assert.match(screen, /description\n\s+\+ Redirect back\n\s+\+ after login/);
+  assert.doesNotMatch(screen, /name\s+|status\s+/);
+});
+
+test("goes back to the form to fix them", async () => {
+  await app.press(Keys.ESC);
+  assert.match(app.screen(), /Worktree\/edit-task/);
+  await app.press(Keys.BACKSPACE, Keys.BACKSPACE);
+  await app.type("02");
+  await app.press(Keys.ENTER);
+
+  assert.match(app.screen(), /due\s+none → 2026-11-02/);
+});
+
+test("saves only the changed fields", async () => {
+  await app.press(Keys.ENTER);
+  await app.waitFor("task updated!");
+
+  const saved = readFileSync(join(app.home, ".local/share/gw-app/tasks.yaml"));
+  assert.match(saved.toString(), /priority: high/);
+  assert.match(saved.toString(), /dueDate: 2026-11-02/);
+  assert.match(saved.toString(), /- ada\n\s+- alan/);
+  assert.match(
+    saved.toString(),
+    /description: \|-\n\s+Redirect back\n\s+after login/,
+  );
+
+  await app.press("e");
+  await app.waitFor("description:");
+  await app.press(Keys.TAB, Keys.TAB, Keys.TAB, "k", Keys.ENTER);
+  const screen = app.screen();
+  assert.match(screen, /priority\s+high → urgent/);
+  assert.doesNotMatch(screen, /assignees\s+|due\s+|description/);
+});
+
+test("checks the due date", async () => {
+  await app.press(Keys.ESC, Keys.TAB);
+  await app.type("x");
+
+  const screen = app.screen();
+  assert.match(screen, /expected a date like 2026-01-31/);
+  await app.press(Keys.ENTER);
+  assert.match(app.screen(), /Worktree\/edit-task/);
+});
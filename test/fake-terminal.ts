@@ -0,0 +1,116 @@
+import type { Terminal } from "../ui/terminal.ts";
+
+// Cursor movement, clearing and private modes, anything else is ignored
+const CSI = /^\u001B\[([?\d;]*)([A-Za-z])/;
+
+/**
+ * In-memory terminal that understands the escapes written by `Screen`, so
+ * tests can read the screen the way a user would see it.
+ */
+export class FakeTerminal implements Terminal {
+  columns: number;
+  rows: number;
+  raw = false;
+  output = "";
+  private cells: string[][] = [];
+  private row = 0;
+  private column = 0;
+  private dataListeners: ((data: string) => void)[] = [];
+  private resizeListeners: (() => void)[] = [];
+
+  constructor({ columns = 100, rows = 30 } = {}) {
+    this.columns = columns;
+    this.rows = rows;
+    this.clear();
+  }
+
+  write(text: string): void {
+    this.output += text;
+    let index = 0;
+
+    while (index < text.length) {
+      if (text[index] === "\u001B") {
+        const match = text.slice(index).match(CSI);
+        index += match ? match[0].length : 1;
+        if (match) this.escape(match[1], match[2]);
+        continue;
+      }
+
+      const char = String.fromCodePoint(text.codePointAt(index) ?? 32);
+      index += char.length;
+      this.print(char);
+    }
+  }
+
+  onResize(listener: () => void): void {
+    this.resizeListeners.push(listener);
+  }
+
+  onData(listener: (data: string) => void): void {
+    this.dataListeners.push(listener);
+  }
+
+  open(): void {
+    this.raw = true;
+  }
+
+  close(): void {
+    this.raw = false;
+  }
+
+  send(data: string): void {
+    for (const listener of this.dataListeners) listener(data);
+  }
+
+  resize(columns: number, rows: number): void {
+    this.columns = columns;
+    this.rows = rows;
+    this.clear();
+    for (const listener of this.resizeListeners) listener();
+  }
+
+  // Screen contents without trailing spaces and empty rows
+  getText(): string {
+    return this.cells
+      .map((row) => row.join("").trimEnd())
+      .join("\n")
+      .trimEnd();
+  }
+
+  private clear(): void {
+    this.cells = Array.from({ length: this.rows }, () =>
+      Array<string>(this.columns).fill(" "),
+    );
+  }
+
+  private escape(params: string, command: string): void {
+    if (command === "H") {
+      const [row = 1, column = 1] = params.split(";").map(Number);
+      this.row = row - 1;
+      this.column = column - 1;
+    } else if (command === "J" && params === "2") {
+      this.clear();
+    } else if (params === "?1049" && (command === "h" || command === "l")) {
+      this.clear();
+      this.row = 0;
+      this.column = 0;
+    }
+  }
+
+  private print(char: string): void {
+    if (char === "\n") {
+      this.row++;
+      this.column = 0;
+      return;
+    }
+    if (this.column >= this.columns) {
+      this.row++;
+      this.column = 0;
+    }
+    if (this.row >= this.rows) {
+      return;
+    }
+    this.cells[this.row][this.column] = char;
+    this.column++;
+  }
+}
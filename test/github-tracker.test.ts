@@ -0,0 +1,95 @@
+import { after, before, test } from "node:test";
+import assert from "node:assert/strict";
+import { createGithubFake } from "../service/fakes/github.ts";
+import { createDataFolder } from "./harness.ts";
+
+const fake = createGithubFake();
+
+let Github: typeof import("../service/github.ts").Github;
+let Tasks: typeof import("../model/task.ts");
+
+before(async () => {
+  createDataFolder({
+    tracker: "github",
+    github: {
+      owner: "acme",
+      repo: "app",
+      api_url: await fake.listen(),
+      status_labels: ["in progress", "review"],
+    },
+  });
+
+  // Loaded through the tracker, which imports every provider
+  await import("../service/tracker.ts");
+  ({ Github } = await import("../service/github.ts"));
+  Tasks = await import("../model/task.ts");
+  Github.setToken("token");
+});
+
+after(() => fake.close());
+
+const labels = (number: number) =>
+  fake.issues.get(number)!.labels.map((label) => label.name);
+
+test("lists the open issues assigned to the user", async () => {
+  const tasks = await Github.getTaskList();
+
+  assert.deepEqual(
+    tasks.map((task) => [task.id, task.status.label]),
+    [
+      ["1", "open"],
+      ["2", "in progress"],
+    ],
+  );
+  assert.deepEqual(tasks[0].list, { id: "acme/app", name: "app" });
+});
+
+test("swaps the status label and keeps the others", async () => {
+  await Github.updateTask({ id: "2", statusLabel: "review" });
+  assert.deepEqual(labels(2), ["ui", "review"]);
+  assert.equal(fake.issues.get(2)!.state, "open");
+
+  await Github.updateTask({ id: "2", statusLabel: "closed" });
+  assert.deepEqual(labels(2), ["ui"]);
+  assert.equal(fake.issues.get(2)!.state, "closed");
+
+  await Github.updateTask({ id: "2", statusLabel: "open" });
+  assert.deepEqual(labels(2), ["ui"]);
+  assert.equal(fake.issues.get(2)!.state, "open");
+});
+
+test("moves a task to in progress", async () => {
+  const task = await Github.getTask("1");
+  const status = await Tasks.getInProgressStatus(task);
+  assert.equal(status?.label, "in progress");
+
+  const saved = await Tasks.updateTaskStatus(task, status!);
+  assert.deepEqual(saved.status, { id: "in progress", label: "in progress" });
+  assert.deepEqual(labels(1), ["in progress"]);
+});
+
+test("reads the description and assignees of an issue", async () => {
+  assert.deepEqual(await Github.getTaskDetails("4"), {
+    description: "",
+    assignees: ["hubot"],
+    priority: null,
+    dueDate: null,
+  });
+});
+
+test("updates only the changed fields of an issue", async () => {
+  await Github.updateTask({
+    id: "4",
+    description: "Invoices and cards.",
+    assignees: ["hubot", "octocat"],
+  });
+
+  const issue = fake.issues.get(4)!;
+  assert.equal(issue.title, "Billing page");
+  assert.equal(issue.body, "Invoices and cards.");
+  assert.deepEqual(
+    issue.assignees.map((user) => user.login),
+    ["hubot", "octocat"],
+  );
+  assert.equal(issue.state, "open");
+});
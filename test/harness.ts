@@ -0,0 +1,164 @@
+import { execSync } from "node:child_process";
+import { mkdirSync, mkdtempSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { setImmediate, setTimeout } from "node:timers/promises";
+import yaml from "yaml";
+import type { Task } from "../app.ts";
+import type { Worktree } from "../service/git.ts";
+import { FakeTerminal } from "./fake-terminal.ts";
+
+type Options = {
+  worktrees: Worktree[];
+  tasks?: Task[];
+  config?: Record<string, unknown>;
+  columns?: number;
+  rows?: number;
+};
+
+export type Harness = {
+  terminal: FakeTerminal;
+  // Temporary HOME holding the app data folder
+  home: string;
+  press(...keys: string[]): Promise<void>;
+  type(text: string): Promise<void>;
+  screen(): string;
+  waitFor(text: string | RegExp, timeout?: number): Promise<string>;
+  stop(): void;
+};
+
+// Lets pending promises and the render they request run
+async function settle(): Promise<void> {
+  for (let i = 0; i < 5; i++) {
+    await setImmediate();
+  }
+}
+
+function matches(screen: string, text: string | RegExp): boolean {
+  return typeof text === "string" ? screen.includes(text) : text.test(screen);
+}
+
+/**
+ * Creates a repository with an `origin` remote and one worktree per branch
+ * next to the `master` one, then moves into it like a user running the app.
+ */
+export function createRepository(branches: string[]): Worktree[] {
+  const root = mkdtempSync(join(tmpdir(), "gw-repo-"));
+  const main = join(root, "master");
+
+  Object.assign(process.env, {
+    GIT_AUTHOR_NAME: "gw",
+    GIT_AUTHOR_EMAIL: "gw@example.com",
+    GIT_COMMITTER_NAME: "gw",
+    GIT_COMMITTER_EMAIL: "gw@example.com",
+  });
+
+  const git = (command: string, cwd = main) =>
+    execSync(`git ${command}`, { cwd, stdio: "pipe" });
+
+  git("init -q --bare -b master origin.git", root);
+  git("clone -q origin.git master", root);
+  git("commit -q --allow-empty -m init");
+  git("push -q origin HEAD:master");
+  git("remote set-head origin master");
+
+  for (const branch of branches) {
+    git(`worktree add -q -b ${branch} ../${branch} origin/master`);
+  }
+
+  process.chdir(main);
+
+  return ["master", ...branches].map((branch) => ({
+    path: join(root, branch),
+    branch,
+  }));
+}
+
+/**
+ * Points HOME to a temporary folder with the app data folder holding the
+ * given config and tasks. The folder is resolved when the app modules load,
+ * so it has to be created before importing them.
+ */
+export function createDataFolder(
+  config: Record<string, unknown>,
+  tasks: Task[] = [],
+): string {
+  const home = mkdtempSync(join(tmpdir(), "gw-test-"));
+  const store = join(home, ".local/share/gw-app");
+  mkdirSync(store, { recursive: true });
+  writeFileSync(join(store, "config.yaml"), yaml.stringify(config));
+  writeFileSync(join(store, "tasks.yaml"), yaml.stringify(tasks));
+
+  process.env.HOME = home;
+  return home;
+}
+
+/**
+ * Starts the app on a fake terminal with the given worktrees, using the
+ * local tracker unless `config` says otherwise. The app modules are
+ * singletons, so it can only be started once per test file.
+ */
+export async function startApp(options: Options): Promise<Harness> {
+  const home = createDataFolder(
+    options.config ?? { tracker: "local" },
+    options.tasks,
+  );
+  // Keeps the tmux actions out of the header
+  delete process.env.TMUX;
+
+  const { App } = await import("../app.ts");
+  const { Screen } = await import("../ui/screen.ts");
+  const { Outbox } = await import("../model/outbox.ts");
+  const { loadTasks } = await import("../model/task.ts");
+  const { setWorktrees, start, stop } = await import("../index.ts");
+
+  const terminal = new FakeTerminal(options);
+  Screen.terminal = terminal;
+  App.tasks = loadTasks();
+  Outbox.load();
+  setWorktrees(options.worktrees);
+  start();
+  await settle();
+
+  const harness: Harness = {
+    terminal,
+    home,
+
+    async press(...keys) {
+      for (const key of keys) {
+        terminal.send(key);
+        await settle();
+      }
+    },
+
+    // Sent as one chunk, the way fast typing and pastes without bracketed
+    // paste arrive
+    async type(text) {
+      terminal.send(text);
+      await settle();
+    },
+
+    screen() {
+      return terminal.getText();
+    },
+
+    async waitFor(text, timeout = 1000) {
+      const end = Date.now() + timeout;
+      while (!matches(this.screen(), text)) {
+        if (Date.now() > end) {
+          throw new Error(
+            `Timed out waiting for ${text} on screen:\n${this.screen()}`,
+          );
+        }
+        await setTimeout(10);
+      }
+      return this.screen();
+    },
+
+    stop() {
+      stop();
+    },
+  };
+
+  return harness;
+}
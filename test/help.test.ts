@@ -0,0 +1,75 @@
+import { after, before, test } from "node:test";
+import assert from "node:assert/strict";
+import { Keys } from "../keys.ts";
+import { startApp, type Harness } from "./harness.ts";
+
+let app: Harness;
+
+before(async () => {
+  app = await startApp({
+    worktrees: [
+      { path: "/work/master", branch: "master" },
+      { path: "/work/abc1", branch: "abc1" },
+    ],
+  });
+});
+
+after(() => app.stop());
+
+test("lists every action of the page in the help", async () => {
+  await app.press("?");
+
+  const screen = app.screen();
+  assert.match(screen, /Worktree\/help/);
+  assert.match(screen, /^ j\s+down\s/m);
+  assert.match(screen, / \/\s+search\s/);
+  assert.match(screen, / :\s+palette$/m);
+});
+
+test("closes the help and keeps the page", async () => {
+  await app.press("?");
+
+  assert.doesNotMatch(app.screen(), /Worktree\/help/);
+  assert.match(app.screen(), /\[master\]/);
+});
+
+test("finds actions of every page in the palette", async () => {
+  await app.press(":");
+  await app.type("retry all");
+
+  const screen = app.screen();
+  assert.match(screen, /Worktree\/palette/);
+  assert.match(screen, /action: retry all/);
+  assert.match(screen, /\[retry all\]\s+outbox$/m);
+});
+
+test("runs the chosen action on its page", async () => {
+  await app.press(Keys.ESC, ":");
+  await app.type("add");
+  await app.press(Keys.ENTER);
+
+  const screen = app.screen();
+  assert.match(screen, /Worktree\/add/);
+  assert.match(screen, /branch:/);
+});
+
+test("opens the page of an action before running it", async () => {
+  await app.press(Keys.ESC, ":");
+  await app.type("all cleanup");
+  await app.press(Keys.ENTER);
+
+  assert.match(app.screen(), /Worktree\/cleanup/);
+  await app.waitFor("nothing to clean up", 5000);
+});
+
+test("leaves the current page through its way back", async () => {
+  await app.press(":");
+  await app.type("pick task");
+  await app.press(Keys.ENTER);
+
+  assert.match(app.screen(), /Worktree\/pick-task/);
+  await app.waitFor("no tasks found", 5000);
+
+  await app.press(Keys.ESC);
+  assert.match(app.screen(), /Worktree\/add/);
+});
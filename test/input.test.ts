@@ -0,0 +1,101 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { KeyDecoder, Keys } from "../keys.ts";
+import { Form } from "../ui/form.ts";
+
+// Types the keys into a new input and returns it
+function edit(value: string, ...keys: string[]) {
+  const input = new Form.Input().setValue(value);
+  const decoder = new KeyDecoder();
+  for (const key of keys) {
+    for (const event of decoder.decode(key)) {
+      input.edit(event);
+    }
+  }
+  return input;
+}
+
+// The value with a bar at the cursor
+function show(input: InstanceType<typeof Form.Input>): string {
+  return (
+    input.value.slice(0, input.cursor) + "|" + input.value.slice(input.cursor)
+  );
+}
+
+test("inserts and deletes at the cursor", () => {
+  assert.equal(
+    show(edit("feat", Keys.ARROW_LEFT, Keys.ARROW_LEFT, "x")),
+    "fex|at",
+  );
+  assert.equal(show(edit("feat", Keys.HOME, Keys.DELETE)), "|eat");
+  assert.equal(show(edit("feat", "\u0001", Keys.BACKSPACE)), "|feat");
+  assert.equal(show(edit("feat", "\u0001", "\u0005", "!")), "feat!|");
+});
+
+test("moves and deletes by word", () => {
+  assert.equal(show(edit("feat/login-form", "\u001bb")), "feat/login-|form");
+  assert.equal(
+    show(edit("feat/login-form", "\u001b[1;5D", "\u001b[1;5D")),
+    "feat/|login-form",
+  );
+  assert.equal(show(edit("feat/login-form", "\u001b\u007f")), "feat/login-|");
+  assert.equal(show(edit("fix the form", "\u0017")), "fix the |");
+  assert.equal(show(edit("feat/login", Keys.HOME, "\u001bd")), "|/login");
+});
+
+test("deletes to either end of the line", () => {
+  assert.equal(
+    show(edit("feat/login", Keys.HOME, Keys.CTRL_F, "\u000b")),
+    "f|",
+  );
+  assert.equal(show(edit("feat/login", Keys.CTRL_B, Keys.CTRL_U)), "|n");
+});
+
+test("keeps the cursor when the same value is set again", () => {
+  const input = edit("feat", Keys.ARROW_LEFT);
+  input.setValue("feat");
+  assert.equal(show(input), "fea|t");
+
+  input.setValue("fix");
+  assert.equal(show(input), "fix|");
+});
+
+test("goes through the history and back to the draft", () => {
+  const input = new Form.Input().remember("first").remember("second");
+  const decoder = new KeyDecoder();
+  const press = (key: string) =>
+    decoder.decode(key).forEach((event) => input.edit(event));
+
+  input.setValue("draft");
+  press(Keys.ARROW_UP);
+  assert.equal(input.value, "second");
+  press(Keys.ARROW_UP);
+  press(Keys.ARROW_UP);
+  assert.equal(input.value, "first");
+  press(Keys.ARROW_DOWN);
+  press(Keys.ARROW_DOWN);
+  assert.equal(show(input), "draft|");
+});
+
+test("breaks lines and moves between them in text areas", () => {
+  const area = new Form.TextArea();
+  const decoder = new KeyDecoder();
+  const press = (...keys: string[]) =>
+    keys.forEach((key) =>
+      decoder.decode(key).forEach((event) => area.edit(event)),
+    );
+
+  press("first line", Keys.ENTER, "two");
+  assert.equal(area.value, "first line\ntwo");
+  assert.deepEqual(area.getPosition(), { line: 1, column: 3 });
+
+  press(Keys.ARROW_UP, Keys.END);
+  assert.deepEqual(area.getPosition(), { line: 0, column: 10 });
+  press(Keys.ARROW_DOWN);
+  assert.equal(show(area), "first line\ntwo|");
+
+  press(Keys.HOME, Keys.BACKSPACE);
+  assert.equal(show(area), "first line|two");
+  press(Keys.ENTER, "\u000b", "\u000b");
+  assert.equal(show(area), "first line\n|");
+});
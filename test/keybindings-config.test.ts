@@ -0,0 +1,47 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { spawnSync } from "node:child_process";
+import { fileURLToPath } from "node:url";
+import { createDataFolder } from "./harness.ts";
+
+const INDEX = fileURLToPath(new URL("../index.ts", import.meta.url));
+
+// Runs the app with the given keybindings, it should stop before drawing
+function start(keybindings: Record<string, unknown>) {
+  const home = createDataFolder({ tracker: "local", keybindings });
+  return spawnSync(process.execPath, ["--experimental-strip-types", INDEX], {
+    env: { ...process.env, HOME: home },
+    encoding: "utf8",
+    timeout: 10000,
+  });
+}
+
+test("refuses to start with a key it can't parse", () => {
+  const result = start({ idle: { copy: "hyper+x" } });
+
+  assert.equal(result.status, 1);
+  assert.match(result.stdout, /Invalid keybindings in config\.yaml/);
+  assert.match(
+    result.stdout,
+    /keybindings\.idle\.copy: Unknown modifier in key "hyper\+x"/,
+  );
+});
+
+test("reports every clashing or unknown binding", () => {
+  const result = start({
+    idle: { copy: "d", first: "a b" },
+    nope: { quit: "x" },
+  });
+
+  assert.equal(result.status, 1);
+  assert.match(result.stdout, /Invalid keybindings in config\.yaml/);
+  assert.match(result.stdout, /unknown page "nope"/);
+  assert.match(
+    result.stdout,
+    /"d" on page "idle" is used by both delete and copy/,
+  );
+  assert.match(
+    result.stdout,
+    /"a" on page "idle" is used by both first and add/,
+  );
+});
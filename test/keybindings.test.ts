@@ -0,0 +1,73 @@
+import { after, before, test } from "node:test";
+import assert from "node:assert/strict";
+import { Keys } from "../keys.ts";
+import { startApp, type Harness } from "./harness.ts";
+
+let app: Harness;
+
+before(async () => {
+  app = await startApp({
+    worktrees: [
+      { path: "/work/master", branch: "master" },
+      { path: "/work/abc1", branch: "abc1" },
+      { path: "/work/abc2", branch: "abc2" },
+    ],
+    config: {
+      tracker: "local",
+      keybindings: {
+        idle: { copy: "y", first: "g g", add: ["a", "ctrl+a"] },
+      },
+    },
+  });
+});
+
+after(() => app.stop());
+
+test("parses keys, modifiers and chords", async () => {
+  // Loaded after the app, the config is read from the data folder
+  const { parseBinding } = await import("../keybindings.ts");
+
+  assert.deepEqual(parseBinding("g g"), ["g", "g"]);
+  assert.deepEqual(parseBinding("ctrl+t"), [Keys.CTRL_T]);
+  assert.deepEqual(parseBinding("shift+up"), [Keys.SHIFT_ARROW_UP]);
+  assert.deepEqual(parseBinding("shift+tab"), [Keys.SHIFT_TAB]);
+  assert.deepEqual(parseBinding("alt+x enter"), ["\u001bx", Keys.ENTER]);
+  assert.throws(() => parseBinding("hyper+x"), /Unknown modifier/);
+  assert.throws(() => parseBinding("nope"), /Unknown key/);
+});
+
+test("formats bindings for the header", async () => {
+  const { formatBinding } = await import("../keybindings.ts");
+
+  assert.equal(formatBinding([Keys.CTRL_T]), "^t");
+  assert.equal(formatBinding([Keys.ESC]), "esc");
+  assert.equal(formatBinding(["\u001b[1;5A"]), "ctrl+↑");
+  assert.equal(formatBinding(["g", "g"]), "g g");
+});
+
+test("shows the configured keys in the header", () => {
+  const screen = app.screen();
+  assert.match(screen, /\[y\]copy/);
+  assert.match(screen, /\[a\/\^a\]add/);
+});
+
+test("runs chords once every key is pressed", async () => {
+  await app.press("J");
+  assert.match(app.screen(), /\[abc2\]/);
+
+  await app.press("g");
+  assert.match(app.screen(), /\[abc2\]/);
+
+  await app.press("g");
+  assert.match(app.screen(), /\[master\]/);
+});
+
+test("starts over when a key doesn't continue the chord", async () => {
+  await app.press("g", "j");
+  assert.match(app.screen(), /\[abc1\]/);
+});
+
+test("uses every binding of an action", async () => {
+  await app.press("\u0001");
+  assert.match(app.screen(), /Worktree\/add/);
+});
@@ -0,0 +1,79 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { KeyDecoder, Keys } from "../keys.ts";
+
+function decode(...chunks: string[]) {
+  const decoder = new KeyDecoder();
+  return chunks.flatMap((chunk) => decoder.decode(chunk));
+}
+
+test("splits typed text into keys", () => {
+  const keys = decode("aB é");
+
+  assert.deepEqual(
+    keys.map((key) => key.text),
+    ["a", "B", " ", "é"],
+  );
+  assert.equal(keys[1].shift, true);
+  assert.equal(keys[2].name, "space");
+});
+
+test("decodes ctrl and alt keys", () => {
+  const [ctrl, alt] = decode("\u000e\u001bb");
+
+  assert.equal(ctrl.sequence, Keys.CTRL_N);
+  assert.equal(ctrl.name, "n");
+  assert.equal(ctrl.ctrl, true);
+  assert.equal(ctrl.text, null);
+
+  assert.equal(alt.name, "b");
+  assert.equal(alt.alt, true);
+  assert.equal(alt.text, null);
+});
+
+test("decodes arrows and modifiers from both encodings", () => {
+  const keys = decode(
+    "\u001b[A\u001bOB\u001b[1;2A\u001b[1;5C\u001b[3~\u001b[Z",
+  );
+
+  assert.deepEqual(
+    keys.map((key) => key.sequence),
+    [
+      Keys.ARROW_UP,
+      Keys.ARROW_DOWN,
+      Keys.SHIFT_ARROW_UP,
+      "\u001b[1;5C",
+      Keys.DELETE,
+      Keys.SHIFT_TAB,
+    ],
+  );
+  assert.equal(keys[2].shift, true);
+  assert.equal(keys[3].name, "right");
+  assert.equal(keys[3].ctrl, true);
+  assert.equal(keys[4].name, "delete");
+});
+
+test("waits for sequences cut between chunks", () => {
+  const keys = decode("a\u001b[", "B\u001b[1;", "5A");
+
+  assert.deepEqual(
+    keys.map((key) => key.name),
+    ["a", "down", "up"],
+  );
+  assert.equal(keys[2].ctrl, true);
+});
+
+test("decodes a lone escape", () => {
+  const [key] = decode("\u001b");
+
+  assert.equal(key.name, "escape");
+});
+
+test("keeps pasted text together across chunks", () => {
+  const keys = decode("\u001b[200~foo\nb", "ar\u001b[2", "01~x");
+
+  assert.equal(keys.length, 2);
+  assert.equal(keys[0].name, "paste");
+  assert.equal(keys[0].text, "foo\nbar");
+  assert.equal(keys[1].text, "x");
+});
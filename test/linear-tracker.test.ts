@@ -0,0 +1,98 @@
+import { after, before, test } from "node:test";
+import assert from "node:assert/strict";
+import { createLinearFake } from "../service/fakes/linear.ts";
+import { createDataFolder } from "./harness.ts";
+
+const fake = createLinearFake();
+
+let Linear: typeof import("../service/linear.ts").Linear;
+let Tasks: typeof import("../model/task.ts");
+
+before(async () => {
+  createDataFolder({
+    tracker: "linear",
+    linear: { workspace: "acme", api_url: await fake.listen() },
+  });
+
+  // Loaded through the tracker, which imports every provider
+  await import("../service/tracker.ts");
+  ({ Linear } = await import("../service/linear.ts"));
+  Tasks = await import("../model/task.ts");
+  Linear.setToken("token");
+});
+
+after(() => fake.close());
+
+test("lists the assigned issues not done", async () => {
+  const tasks = await Linear.getTaskList();
+
+  assert.deepEqual(tasks, [
+    {
+      id: "ENG-1",
+      name: "Login form",
+      status: { id: "state-todo", label: "Todo" },
+      list: { id: "team-1", name: "Engineering" },
+    },
+  ]);
+});
+
+test("updates the state by the id of its label", async () => {
+  await Linear.updateTask({ id: "ENG-2", statusLabel: "todo" });
+  assert.equal(fake.issues.get("ENG-2")!.stateId, "state-todo");
+
+  await assert.rejects(
+    Linear.updateTask({ id: "ENG-2", statusLabel: "Blocked" }),
+    /Unknown state "Blocked"/,
+  );
+  assert.equal(fake.issues.get("ENG-2")!.stateId, "state-todo");
+});
+
+test("moves a task to in progress", async () => {
+  const task = await Linear.getTask("ENG-1");
+  const status = await Tasks.getInProgressStatus(task);
+  assert.equal(status?.id, "state-progress");
+
+  const saved = await Tasks.updateTaskStatus(task, status!);
+  assert.deepEqual(saved.status, {
+    id: "state-progress",
+    label: "In Progress",
+  });
+  assert.equal(fake.issues.get("ENG-1")!.stateId, "state-progress");
+});
+
+test("reads the details of an issue", async () => {
+  assert.deepEqual(await Linear.getTaskDetails("ENG-1"), {
+    description: "Email and password, with a link to reset it.",
+    assignees: ["ada"],
+    priority: "high",
+    dueDate: "2026-11-01",
+  });
+});
+
+test("updates only the changed fields of an issue", async () => {
+  await Linear.updateTask({ id: "ENG-1", priority: "urgent", dueDate: null });
+
+  const issue = fake.issues.get("ENG-1")!;
+  assert.equal(issue.priority, 1);
+  assert.equal(issue.dueDate, null);
+  assert.equal(issue.title, "Login form");
+  assert.equal(issue.assigneeId, "user-1");
+});
+
+test("assigns a single user found by name or email", async () => {
+  await Linear.updateTask({ id: "ENG-1", assignees: ["alan@example.com"] });
+  assert.equal(fake.issues.get("ENG-1")!.assigneeId, "user-2");
+
+  await Linear.updateTask({ id: "ENG-1", assignees: [] });
+  assert.equal(fake.issues.get("ENG-1")!.assigneeId, null);
+
+  await assert.rejects(
+    Linear.updateTask({ id: "ENG-1", assignees: ["ada", "alan"] }),
+    /single assignee/,
+  );
+  await assert.rejects(
+    Linear.updateTask({ id: "ENG-1", assignees: ["grace"] }),
+    /Unknown assignee "grace"/,
+  );
+  assert.equal(fake.issues.get("ENG-1")!.assigneeId, null);
+});
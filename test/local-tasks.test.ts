@@ -0,0 +1,35 @@
+import { before, test } from "node:test";
+import assert from "node:assert/strict";
+import { mkdtempSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+
+let Local: typeof import("../service/local.ts").Local;
+let saveTasks: typeof import("../model/task.ts").saveTasks;
+
+before(async () => {
+  // The data folder is resolved when the modules load
+  process.env.HOME = mkdtempSync(join(tmpdir(), "gw-test-"));
+  // Loaded through the tracker, which imports every provider
+  await import("../service/tracker.ts");
+  ({ Local } = await import("../service/local.ts"));
+  ({ saveTasks } = await import("../model/task.ts"));
+});
+
+test("keeps local tasks without a worktree when the cache is saved", async () => {
+  const login = await Local.getTask("login");
+  await Local.getTask("billing");
+
+  // The cache only holds the tasks of the worktrees
+  saveTasks({ login });
+
+  const tasks = await Local.getTaskList();
+  assert.deepEqual(
+    tasks.map((task) => task.id),
+    ["login", "billing"],
+  );
+});
+
+test("links tasks to the file they are kept in", () => {
+  assert.match(Local.getTaskUrl("login"), /\/local-tasks\.yaml$/);
+});
@@ -0,0 +1,68 @@
+import { before, test } from "node:test";
+import assert from "node:assert/strict";
+import { mkdtempSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import {
+  RequestError,
+  isTransientError,
+  parseResponse,
+} from "../service/errors.ts";
+
+let Outbox: typeof import("../model/outbox.ts").Outbox;
+
+before(async () => {
+  // The data folder is resolved when the modules load
+  process.env.HOME = mkdtempSync(join(tmpdir(), "gw-test-"));
+  ({ Outbox } = await import("../model/outbox.ts"));
+});
+
+test("keeps a change merged while the queued one was syncing", () => {
+  const syncing = Outbox.enqueue({ update: { id: "t1", name: "A" } }, "");
+  const merged = Outbox.enqueue({ update: { id: "t1", description: "B" } }, "");
+  assert.notEqual(merged.id, syncing.id);
+
+  Outbox.remove(syncing.id);
+  assert.deepEqual(
+    Outbox.operations.map((op) => op.update),
+    [{ id: "t1", name: "A", description: "B" }],
+  );
+});
+
+test("drops the queued changes made by a direct update", () => {
+  Outbox.trim({ id: "t1", name: "C" });
+  assert.deepEqual(
+    Outbox.operations.map((op) => op.update),
+    [{ id: "t1", description: "B" }],
+  );
+
+  Outbox.trim({ id: "t1", description: "D" });
+  assert.deepEqual(Outbox.operations, []);
+});
+
+test("drops a queued move to in progress once the status is changed", () => {
+  Outbox.enqueue({ update: { id: "t2" }, inProgress: true }, "");
+
+  Outbox.trim({ id: "t2", statusLabel: "review" });
+  assert.deepEqual(Outbox.operations, []);
+});
+
+test("only retries errors that may go away", () => {
+  assert.ok(isTransientError(new TypeError("fetch failed")));
+  assert.ok(isTransientError(new RequestError("Bad Gateway", 502)));
+  assert.ok(isTransientError(new RequestError("Too Many Requests", 429)));
+  assert.ok(!isTransientError(new RequestError("Not Found", 404)));
+  assert.ok(!isTransientError(new Error('Unknown status "blocked"')));
+});
+
+test("retries error pages that aren't JSON", async () => {
+  const page = new Response("<html>Bad Gateway</html>", {
+    status: 502,
+    statusText: "Bad Gateway",
+  });
+
+  const error = await parseResponse(page).catch((e) => e);
+  assert.ok(error instanceof RequestError);
+  assert.equal(error.message, "502 Bad Gateway");
+  assert.ok(isTransientError(error));
+});
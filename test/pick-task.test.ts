@@ -0,0 +1,72 @@
+import { after, before, test } from "node:test";
+import assert from "node:assert/strict";
+import { existsSync } from "node:fs";
+import { dirname, join } from "node:path";
+import { Keys } from "../keys.ts";
+import type { Worktree } from "../service/git.ts";
+import { createRepository, startApp, type Harness } from "./harness.ts";
+
+let app: Harness;
+let worktrees: Worktree[];
+
+const task = (id: string, name: string) => ({
+  id,
+  name,
+  status: { id: "todo", label: "todo" },
+  list: { id: "local", name: "local" },
+});
+
+before(async () => {
+  worktrees = createRepository(["login"]);
+  app = await startApp({
+    worktrees,
+    tasks: [
+      task("login", "Login form"),
+      task("billing", "Billing page"),
+      task("darkmode", "Dark mode"),
+    ],
+  });
+});
+
+after(() => app.stop());
+
+test("lists the tasks without a worktree", async () => {
+  await app.press("a", Keys.CTRL_T);
+
+  const screen = await app.waitFor("Billing page");
+  assert.match(screen, /Worktree\/pick-task/);
+  assert.match(screen, /darkmode\s+Dark mode\s+todo/);
+  assert.doesNotMatch(screen, /Login form/);
+});
+
+test("filters the tasks by what is typed", async () => {
+  await app.type("drk");
+
+  const screen = app.screen();
+  assert.match(screen, /filter: drk/);
+  assert.match(screen, /\[darkmode\]\s+Dark mode/);
+  assert.doesNotMatch(screen, /Billing page/);
+});
+
+test("fills in the add form with the picked task", async () => {
+  await app.press(Keys.TAB);
+
+  const screen = app.screen();
+  assert.match(screen, /Worktree\/add/);
+  assert.match(screen, /branch: darkmode/);
+  assert.match(screen, /path:\[darkmode\s*\]/);
+  assert.match(screen, /create:\[YES\]/);
+});
+
+test("creates the worktree of the picked task", async () => {
+  await app.press(Keys.ESC, "a", Keys.CTRL_T);
+  await app.waitFor("Billing page");
+  await app.type("bil");
+  await app.press(Keys.ENTER);
+
+  await app.waitFor("worktree billing added", 5000);
+  assert.ok(existsSync(join(dirname(worktrees[0].path), "billing")));
+  // Moved to in progress like a task created by hand
+  const screen = await app.waitFor(/Billing page\n\s+in progress/, 5000);
+  assert.match(screen, /\[billing\]/);
+});
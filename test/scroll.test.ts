@@ -0,0 +1,65 @@
+import { after, before, test } from "node:test";
+import assert from "node:assert/strict";
+import { Keys } from "../keys.ts";
+import { startApp, type Harness } from "./harness.ts";
+
+let app: Harness;
+
+const branches = Array.from(
+  { length: 40 },
+  (_, i) => `b${String(i).padStart(2, "0")}`,
+);
+
+before(async () => {
+  app = await startApp({
+    worktrees: branches.map((branch) => ({ path: `/work/${branch}`, branch })),
+    rows: 14,
+  });
+});
+
+after(() => app.stop());
+
+function getSelected(): string | undefined {
+  return app.screen().match(/\[(b\d+)\]/)?.[1];
+}
+
+test("keeps the header and shows what is below", () => {
+  const screen = app.screen();
+  assert.match(screen, /^ Worktree/);
+  assert.match(screen, /\[b00\]/);
+  assert.match(screen, /↓ 32 more/);
+  assert.doesNotMatch(screen, /↑/);
+  assert.equal(screen.split("\n").length, 14);
+});
+
+test("scrolls to keep the selection visible", async () => {
+  await app.press(...Array(10).fill("j"));
+
+  const screen = app.screen();
+  assert.equal(getSelected(), "b10");
+  assert.match(screen, /↑ 3 more/);
+  assert.match(screen, /^ Worktree/);
+});
+
+test("moves by pages and half pages", async () => {
+  await app.press(Keys.PAGE_DOWN);
+  assert.equal(getSelected(), "b18");
+
+  await app.press(Keys.CTRL_U);
+  assert.equal(getSelected(), "b14");
+
+  await app.press("J");
+  assert.equal(getSelected(), "b39");
+  assert.doesNotMatch(app.screen(), /↓/);
+
+  await app.press(Keys.PAGE_UP);
+  assert.equal(getSelected(), "b31");
+});
+
+test("fits the list to the new size on resize", async () => {
+  app.terminal.resize(100, 30);
+
+  const screen = await app.waitFor("↑ 16 more");
+  assert.equal(getSelected(), "b31");
+  assert.doesNotMatch(screen, /↓/);
+});
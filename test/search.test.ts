@@ -0,0 +1,88 @@
+import { after, before, test } from "node:test";
+import assert from "node:assert/strict";
+import { Keys } from "../keys.ts";
+import { startApp, type Harness } from "./harness.ts";
+
+let app: Harness;
+
+const task = (id: string, name: string, status: string) => ({
+  id,
+  name,
+  status: { id: status, label: status },
+  list: { id: "backend", name: "backend" },
+});
+
+before(async () => {
+  app = await startApp({
+    worktrees: ["master", "t1", "t2", "t3", "solo-docs"].map((branch) => ({
+      path: `/work/${branch}`,
+      branch,
+    })),
+    tasks: [
+      task("t1", "Fix login redirect", "todo"),
+      task("t2", "Add billing page", "in review"),
+      task("t3", "Login rate limit", "todo"),
+    ],
+  });
+});
+
+after(() => app.stop());
+
+function getSelected(): string | undefined {
+  return app.screen().match(/^ {2}\[([\w-]+)\]/m)?.[1];
+}
+
+function getListed(): string[] {
+  return [...app.screen().matchAll(/^ {2}[[ ]([\w-]+)[\] ]/gm)].map(
+    (match) => match[1],
+  );
+}
+
+test("matches task names and ranks the results", async () => {
+  await app.press("/");
+  await app.type("login");
+
+  assert.deepEqual(getListed(), ["t3", "t1"]);
+  assert.match(app.screen(), /search: login/);
+});
+
+test("matches statuses and branches", async () => {
+  await app.press(...Array(5).fill(Keys.BACKSPACE));
+  await app.type("review");
+  assert.deepEqual(getListed(), ["t2"]);
+
+  await app.press(...Array(6).fill(Keys.BACKSPACE));
+  await app.type("docs");
+  assert.deepEqual(getListed(), ["solo-docs"]);
+});
+
+test("keeps the selection while typing", async () => {
+  await app.press(...Array(4).fill(Keys.BACKSPACE));
+  await app.type("t");
+  await app.press(Keys.CTRL_N, Keys.CTRL_N);
+  const selected = getSelected();
+
+  await app.type("o");
+  assert.equal(getSelected(), selected);
+  assert.ok(getListed().includes(selected!));
+});
+
+test("goes through the results with j and k", async () => {
+  await app.press(...Array(2).fill(Keys.BACKSPACE));
+  await app.type("login");
+  await app.press(Keys.TAB);
+  assert.equal(getSelected(), "t3");
+
+  await app.press("j");
+  assert.equal(getSelected(), "t1");
+  await app.press("k");
+  assert.equal(getSelected(), "t3");
+  assert.match(app.screen(), /search:\[login\s*\]/);
+});
+
+test("jumps to the result in the full list", async () => {
+  await app.press("j", Keys.ENTER);
+
+  assert.equal(getSelected(), "t1");
+  assert.deepEqual(getListed(), ["master", "solo-docs", "t1", "t2", "t3"]);
+});
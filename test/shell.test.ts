@@ -0,0 +1,85 @@
+import { before, test } from "node:test";
+import assert from "node:assert/strict";
+import { execFileSync } from "node:child_process";
+import { mkdtempSync, readFileSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { createDataFolder } from "./harness.ts";
+
+let ShellIntegration: typeof import("../service/shell.ts").ShellIntegration;
+
+// Folder with a quote in its name, the shells have to escape it
+const folder = mkdtempSync(join(tmpdir(), "gw-it's-"));
+
+before(async () => {
+  createDataFolder({ tracker: "local" });
+  delete process.env.TMUX;
+  ({ ShellIntegration } = await import("../service/shell.ts"));
+});
+
+// Prints the init with the app replaced by a script
+function getInit(shell: "bash" | "fish", script: string): string {
+  const argv = process.argv[1];
+  process.argv[1] = script;
+  try {
+    return ShellIntegration.getInit(shell);
+  } finally {
+    process.argv[1] = argv;
+  }
+}
+
+test("quotes the command for posix shells", () => {
+  const script = join(folder, "app.ts");
+  const init = getInit("bash", script);
+
+  const command = init.match(/GW_CD_FILE="\$cd_file" (.*) "\$@"/)![1];
+  assert.match(command, /'[^']*gw-it'\\''s-[^']*\/app\.ts'$/);
+  // The shell reads it back as the same arguments
+  const args = execFileSync("bash", ["-c", `printf '%s\\n' ${command}`], {
+    encoding: "utf8",
+  });
+  assert.deepEqual(args.trim().split("\n"), [
+    process.execPath,
+    ...process.execArgv,
+    script,
+  ]);
+});
+
+test("escapes quotes and backslashes for fish", () => {
+  const init = getInit("fish", join(folder, "a\\b.ts"));
+
+  assert.match(init, /^function gw$/m);
+  assert.match(init, /'[^']*gw-it\\'s-[^']*\/a\\\\b\.ts' \$argv/);
+});
+
+test("cds into the folder the app writes", () => {
+  const script = join(folder, "app.mjs");
+  writeFileSync(
+    script,
+    `import { writeFileSync } from "node:fs";
+writeFileSync(process.env.GW_CD_FILE, ${JSON.stringify(folder)});`,
+  );
+
+  const init = getInit("bash", script);
+  const cwd = execFileSync("bash", ["-c", `${init}\ngw && pwd`], {
+    encoding: "utf8",
+  });
+  assert.equal(cwd.trim(), folder);
+});
+
+test("writes the worktree to the file of the shell function", async () => {
+  const file = join(folder, "cd");
+  process.env.GW_CD_FILE = file;
+  try {
+    assert.equal(await ShellIntegration.open("/work/t1", "cd"), true);
+    assert.equal(readFileSync(file, "utf8"), "/work/t1");
+
+    // Outside tmux the worktree is still handed to the shell
+    assert.equal(await ShellIntegration.open("/work/t2", "tmux-pane"), true);
+    assert.equal(readFileSync(file, "utf8"), "/work/t2");
+  } finally {
+    delete process.env.GW_CD_FILE;
+  }
+
+  assert.equal(await ShellIntegration.open("/work/t1", "cd"), false);
+});
@@ -0,0 +1,67 @@
+import { after, before, test } from "node:test";
+import assert from "node:assert/strict";
+import { Keys } from "../keys.ts";
+import { startApp, type Harness } from "./harness.ts";
+
+let app: Harness;
+
+before(async () => {
+  app = await startApp({
+    worktrees: [
+      { path: "/work/master", branch: "master" },
+      { path: "/work/t1", branch: "t1" },
+    ],
+    tasks: [
+      {
+        id: "t1",
+        name: "Fix login",
+        status: { id: "todo", label: "todo" },
+        list: { id: "local", name: "local" },
+      },
+    ],
+  });
+});
+
+after(() => app.stop());
+
+test("lists the statuses grouped by type", async () => {
+  await app.press("j", "e", Keys.TAB, Keys.SPACE);
+
+  const screen = await app.waitFor("filter:");
+  assert.match(screen, /^\s+open\n\s+› {2}todo {2}✓ current\n\s+custom\n/m);
+  assert.match(screen, /^\s+custom\n {3}\s+in progress\n\s+review\n/m);
+  assert.match(screen, /^\s+done\n {3}\s+done$/m);
+});
+
+test("moves the highlight with the arrows", async () => {
+  await app.press(Keys.ARROW_DOWN, Keys.ARROW_DOWN);
+
+  assert.match(app.screen(), /› {2}review/);
+});
+
+test("filters by what is typed", async () => {
+  await app.type("rev");
+
+  const screen = app.screen();
+  assert.match(screen, /filter: rev/);
+  assert.match(screen, /› {2}review/);
+  assert.doesNotMatch(screen, /stage 1|todo {2}✓/);
+});
+
+test("picks the highlighted status with enter", async () => {
+  await app.press(Keys.ENTER);
+
+  const screen = app.screen();
+  assert.match(screen, /Worktree\/edit-task/);
+  assert.match(screen, /status: review/);
+  assert.doesNotMatch(screen, /filter:/);
+});
+
+test("closes without changing the status on escape", async () => {
+  await app.press(Keys.SPACE, Keys.ARROW_UP, Keys.ESC);
+
+  const screen = app.screen();
+  assert.match(screen, /Worktree\/edit-task/);
+  assert.match(screen, /status: review/);
+  assert.doesNotMatch(screen, /filter:/);
+});
@@ -0,0 +1,41 @@
+import { before, test } from "node:test";
+import assert from "node:assert/strict";
+import { mkdtempSync, readFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+
+let file: string;
+let Local: typeof import("../service/local.ts").Local;
+let Files: typeof import("../files.ts").Files;
+
+before(async () => {
+  const home = mkdtempSync(join(tmpdir(), "gw-test-"));
+  // The data folder is resolved when the modules load
+  process.env.HOME = home;
+  file = join(home, ".local/share/gw-app/statuses.yaml");
+  // Loaded through the tracker, which imports every provider
+  await import("../service/tracker.ts");
+  ({ Local } = await import("../service/local.ts"));
+  ({ Files } = await import("../files.ts"));
+});
+
+test("uses the statuses written in the file", async () => {
+  Files.statuses.write("local:\n  - id: idea\n    label: idea\n");
+
+  const statuses = await Local.getStatuses("local");
+  assert.deepEqual(statuses, [{ id: "idea", label: "idea" }]);
+});
+
+test("fills in the default statuses of new lists", async () => {
+  const statuses = await Local.getStatuses("backlog");
+  assert.equal(statuses[0].label, "todo");
+  assert.match(readFileSync(file, "utf8"), /idea[\s\S]*backlog:/);
+});
+
+test("reports an invalid file without replacing it", async () => {
+  const content = "local:\n  - name: idea\n";
+  Files.statuses.write(content);
+
+  await assert.rejects(Local.getStatuses("local"), /Invalid .*statuses\.yaml/);
+  assert.equal(readFileSync(file, "utf8"), content);
+});
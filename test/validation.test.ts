@@ -0,0 +1,85 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { setImmediate } from "node:timers/promises";
+import * as z from "zod";
+import { Form } from "../ui/form.ts";
+
+test("validates with schemas", () => {
+  const name = new Form.Input()
+    .setName("name")
+    .setValidator(z.string().min(3, "too short"));
+  const form = new Form.Container<{ name: string }>().add(name);
+
+  form.value.name = "ab";
+  form.update();
+  assert.equal(name.error, "too short");
+  assert.equal(form.isValid(), false);
+
+  form.value.name = "abc";
+  form.update();
+  assert.equal(name.error, null);
+  assert.equal(form.isValid(), true);
+});
+
+test("gives functions the other values", () => {
+  const commit = new Form.Input()
+    .setName("commit")
+    .setValidator((commit, { create }) =>
+      create && commit ? "ignored for new branches" : null,
+    );
+  const form = new Form.Container<{ create: boolean; commit: string }>()
+    .add(new Form.Checkbox().setName("create"))
+    .add(commit);
+
+  form.value.commit = "HEAD";
+  form.update();
+  assert.equal(commit.error, null);
+
+  form.value.create = true;
+  form.update();
+  assert.equal(commit.error, "ignored for new branches");
+});
+
+test("stays invalid while async validators run", async () => {
+  const path = new Form.Input()
+    .setName("path")
+    .setValidator(async (path) => (path === "taken" ? "already exists" : null));
+  const form = new Form.Container<{ path: string }>().add(path);
+
+  form.value.path = "taken";
+  form.update();
+  assert.equal(path.pending, true);
+  assert.equal(form.isValid(), false);
+
+  await setImmediate();
+  assert.equal(path.pending, false);
+  assert.equal(path.error, "already exists");
+});
+
+test("drops results of values changed while validating", async () => {
+  const schema = z
+    .string()
+    .refine(async (branch) => branch !== "main", "protected branch");
+  const branch = new Form.Input().setName("branch").setValidator(schema);
+  const form = new Form.Container<{ branch: string }>().add(branch);
+
+  form.value.branch = "main";
+  form.update();
+  form.value.branch = "feature";
+  form.update();
+
+  await setImmediate();
+  assert.equal(branch.error, null);
+  assert.equal(form.isValid(), true);
+});
+
+test("clears back to empty values", () => {
+  const form = new Form.Container<{ name: string; done: boolean }>()
+    .add(new Form.Input().setName("name"))
+    .add(new Form.Checkbox().setName("done"));
+
+  form.value.name = "task";
+  form.value.done = true;
+  form.clear();
+  assert.deepEqual(form.value, { name: "", done: false });
+});
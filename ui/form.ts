@@ -1,8 +1,41 @@
-import { stdout as output } from "node:process";
 import chalk from "chalk";
 import stripAnsi from "strip-ansi";
+import type * as z from "zod";
 import { App } from "../app.ts";
-import { Keys } from "../keys.ts";
+import { Keys, type KeyEvent } from "../keys.ts";
+import { Screen } from "./screen.ts";
+import { Viewport } from "./viewport.ts";
+import { fuzzyMatch, highlight, type FuzzyMatch } from "../utils.ts";
+
+type Values = Record<string, string | boolean>;
+
+/**
+ * Checks a value, a schema failing with the message shown under the element
+ * or a function returning it, null when valid. Functions also get the other
+ * values of the form, and both can be async.
+ */
+export type Validator<T> =
+  | z.ZodType<unknown, T>
+  | ((value: T, values: Values) => string | null | Promise<string | null>);
+
+function runValidator<T>(
+  validator: Validator<T>,
+  value: T,
+  values: Values,
+): string | null | Promise<string | null> {
+  if (typeof validator === "function") {
+    return validator(value, values);
+  }
+
+  const getError = (result: z.ZodSafeParseResult<unknown>) =>
+    result.success ? null : (result.error.issues[0]?.message ?? "invalid");
+  try {
+    return getError(validator.safeParse(value));
+  } catch {
+    // Schemas with async refinements can't parse synchronously
+    return validator.safeParseAsync(value).then(getError);
+  }
+}
 
 class FormElement<T> {
   focused = false;
@@ -10,7 +43,18 @@ class FormElement<T> {
   // @ts-ignore
   value: T = "";
   size = 0;
-  valid = true;
+  // Column the value starts at, for elements taking several lines
+  indent = 0;
+  private validator: Validator<T> | null = null;
+  error: string | null = null;
+  // Waiting for an async validator
+  pending = false;
+  // Value and form values the last validation ran with
+  private validated: string | null = null;
+
+  get valid(): boolean {
+    return !this.error && !this.pending;
+  }
 
   setName(name: string): this {
     this.name = name;
@@ -32,16 +76,48 @@ class FormElement<T> {
     return this;
   }
 
-  setInvalid(): this {
-    this.valid = false;
+  setValidator(validator: Validator<T>): this {
+    this.validator = validator;
+    this.validated = null;
     return this;
   }
 
-  setValid(): this {
-    this.valid = true;
-    return this;
+  // Runs the validator again when the value or the rest of the form changed
+  validate(values: Values): void {
+    const key = JSON.stringify([this.value, values]);
+    if (!this.validator || key === this.validated) {
+      return;
+    }
+    this.validated = key;
+
+    const result = runValidator(this.validator, this.value, values);
+    if (!(result instanceof Promise)) {
+      this.error = result;
+      this.pending = false;
+      return;
+    }
+
+    this.pending = true;
+    this.error = null;
+    result
+      .catch((e) => String(e?.message ?? e))
+      .then((error) => {
+        // Dropped when the value changed while validating
+        if (this.validated === key) {
+          this.error = error;
+          this.pending = false;
+          Screen.requestRender();
+        }
+      });
+  }
+
+  // Whether something is rendered below the line of the element
+  hasPopup(): boolean {
+    return false;
   }
 
+  renderPopup(_indent: number): void {}
+
   render(): void {}
   update(): void {}
   setValue(value: T): void {
@@ -49,6 +125,14 @@ class FormElement<T> {
   }
 }
 
+// Characters moved over and deleted together by the word shortcuts
+const WORD = /[\p{L}\p{N}_]/u;
+
+/**
+ * Single line text field with a cursor and readline shortcuts. Text wider
+ * than `size` scrolls to keep the cursor visible, inputs without a size grow
+ * with their value.
+ */
 class Input extends FormElement<string> {
   editing = false;
   placeholder = "";
@@ -56,6 +140,14 @@ class Input extends FormElement<string> {
   secret = false;
   hideLabel = false;
   customLabel = "";
+  cursor = 0;
+  // First character shown when the value is wider than the input
+  offset = 0;
+  // Submitted values, oldest first, brought back with up and down
+  history: string[] = [];
+  private historyIndex = 0;
+  // Value being typed before going through the history
+  private draft = "";
 
   setCustomLabel(label: string): this {
     this.customLabel = label;
@@ -77,46 +169,437 @@ class Input extends FormElement<string> {
     return this;
   }
 
+  // A value set from outside moves the cursor to its end
   setValue(value: string): this {
-    this.value = value;
+    value ??= "";
+    if (value !== this.value) {
+      this.value = value;
+      this.cursor = value.length;
+      this.historyIndex = this.history.length;
+    }
+    return this;
+  }
+
+  remember(value: string): this {
+    if (value && this.history.at(-1) !== value) {
+      this.history.push(value);
+    }
+    this.historyIndex = this.history.length;
     return this;
   }
 
+  // Applies a key to the value and the cursor
+  edit(key: KeyEvent): void {
+    const { value, cursor } = this;
+    const name = key.name;
+
+    if (key.text && !key.ctrl && !key.alt) {
+      // Pasted text may hold newlines and tabs, inputs are single line
+      this.insert(key.text.replace(/[\u0000-\u001f\u007f]/g, ""));
+    } else if (name === "backspace") {
+      if (key.alt || key.ctrl) {
+        this.deleteTo(this.findWordStart(cursor));
+      } else {
+        this.deleteTo(cursor - 1);
+      }
+    } else if (name === "delete" || (key.ctrl && name === "d")) {
+      this.deleteTo(cursor + 1);
+    } else if (key.ctrl && name === "w") {
+      // Up to the previous space, like the shell
+      let start = cursor;
+      while (start > 0 && value[start - 1] === " ") start--;
+      while (start > 0 && value[start - 1] !== " ") start--;
+      this.deleteTo(start);
+    } else if (key.alt && name === "d") {
+      this.deleteTo(this.findWordEnd(cursor));
+    } else if (key.ctrl && name === "u") {
+      this.deleteTo(0);
+    } else if (key.ctrl && name === "k") {
+      this.deleteTo(value.length);
+    } else if (
+      (name === "left" && (key.ctrl || key.alt)) ||
+      (key.alt && name === "b")
+    ) {
+      this.cursor = this.findWordStart(cursor);
+    } else if (
+      (name === "right" && (key.ctrl || key.alt)) ||
+      (key.alt && name === "f")
+    ) {
+      this.cursor = this.findWordEnd(cursor);
+    } else if (name === "left" || (key.ctrl && name === "b")) {
+      this.cursor = Math.max(0, cursor - 1);
+    } else if (name === "right" || (key.ctrl && name === "f")) {
+      this.cursor = Math.min(value.length, cursor + 1);
+    } else if (name === "home" || (key.ctrl && name === "a")) {
+      this.cursor = 0;
+    } else if (name === "end" || (key.ctrl && name === "e")) {
+      this.cursor = value.length;
+    } else if (name === "up" || (key.ctrl && name === "p")) {
+      this.browseHistory(-1);
+    } else if (name === "down" || (key.ctrl && name === "n")) {
+      this.browseHistory(1);
+    }
+  }
+
+  protected insert(text: string): void {
+    this.value =
+      this.value.slice(0, this.cursor) + text + this.value.slice(this.cursor);
+    this.cursor += text.length;
+  }
+
+  // Deletes between the cursor and `position`, on either side of it
+  protected deleteTo(position: number): void {
+    const start = Math.max(0, Math.min(this.cursor, position));
+    const end = Math.min(this.value.length, Math.max(this.cursor, position));
+    this.value = this.value.slice(0, start) + this.value.slice(end);
+    this.cursor = start;
+  }
+
+  private findWordStart(position: number): number {
+    while (position > 0 && !WORD.test(this.value[position - 1])) position--;
+    while (position > 0 && WORD.test(this.value[position - 1])) position--;
+    return position;
+  }
+
+  private findWordEnd(position: number): number {
+    const length = this.value.length;
+    while (position < length && !WORD.test(this.value[position])) position++;
+    while (position < length && WORD.test(this.value[position])) position++;
+    return position;
+  }
+
+  private browseHistory(step: number): void {
+    const index = this.historyIndex + step;
+    if (index < 0 || index > this.history.length) {
+      return;
+    }
+    if (this.historyIndex === this.history.length) {
+      this.draft = this.value;
+    }
+    this.historyIndex = index;
+    this.value = this.history[index] ?? this.draft;
+    this.cursor = this.value.length;
+  }
+
   render() {
-    const value = this.value
-      ? this.secret
-        ? this.value.replace(/./g, "*")
-        : this.value
-      : chalk.dim(this.placeholder);
-    const valueSize = stripAnsi(value).length;
-    const size = Math.max(this.size, valueSize);
+    const value = this.secret ? this.value.replace(/./g, "*") : this.value;
+    // Keeps a cell for the cursor after the last character
+    const size = this.size || (value || this.placeholder).length + 1;
 
-    const content =
-      (this.focused ? " " : "[") +
-      value +
-      " ".repeat(size - valueSize) +
-      (this.focused ? " " : "]");
+    this.cursor = Math.min(this.cursor, value.length);
+    this.offset = Math.min(this.offset, Math.max(0, value.length + 1 - size));
+    if (this.cursor < this.offset) {
+      this.offset = this.cursor;
+    } else if (this.cursor >= this.offset + size) {
+      this.offset = this.cursor - size + 1;
+    }
+    if (!this.focused) {
+      this.offset = 0;
+    }
+
+    let text = value
+      ? value.slice(this.offset, this.offset + size)
+      : this.placeholder.slice(0, size);
+    text += " ".repeat(size - text.length);
+    if (!this.focused && value.length > size) {
+      text = text.slice(0, -1) + "…";
+    }
+
+    const format = value ? (part: string) => part : chalk.dim;
+    const content = this.focused
+      ? format(text.slice(0, this.cursor - this.offset)) +
+        chalk.inverse(text[this.cursor - this.offset]) +
+        format(text.slice(this.cursor - this.offset + 1))
+      : format(text);
 
     if (this.customLabel) {
-      output.write(this.customLabel);
+      Screen.write(this.customLabel);
     } else {
-      output.write(this.name + ":");
+      Screen.write(this.name + ":");
     }
 
-    const format = this.focused
+    const style = this.focused
       ? this.valid
         ? chalk.bgWhite.black
         : chalk.bgRed.whiteBright
       : this.valid
         ? chalk
         : chalk.red;
-    output.write(format(content));
+    Screen.write(
+      style((this.focused ? " " : "[") + content + (this.focused ? " " : "]")),
+    );
+  }
+}
+
+/**
+ * Multi-line text field, enter breaks the line and up and down move between
+ * lines. Shows `rows` lines, scrolling to keep the cursor visible.
+ */
+class TextArea extends Input {
+  rows = 4;
+  // First line shown
+  top = 0;
+
+  setRows(rows: number): this {
+    this.rows = rows;
+    return this;
+  }
+
+  // Line and column of the cursor
+  getPosition(): { line: number; column: number } {
+    const lines = this.value.slice(0, this.cursor).split("\n");
+    return { line: lines.length - 1, column: lines.at(-1)!.length };
+  }
+
+  edit(key: KeyEvent): void {
+    const lines = this.value.split("\n");
+    const { line, column } = this.getPosition();
+    const start = this.cursor - column;
+    const end = start + lines[line].length;
+    const name = key.name;
+
+    if (name === "enter") {
+      this.insert("\n");
+    } else if (key.text && !key.ctrl && !key.alt) {
+      this.insert(
+        key.text
+          .replace(/\r\n?/g, "\n")
+          .replace(/[\u0000-\u0009\u000b-\u001f\u007f]/g, ""),
+      );
+    } else if (name === "up" || (key.ctrl && name === "p")) {
+      this.moveToLine(lines, line - 1, column);
+    } else if (name === "down" || (key.ctrl && name === "n")) {
+      this.moveToLine(lines, line + 1, column);
+    } else if (name === "home" || (key.ctrl && name === "a")) {
+      this.cursor = start;
+    } else if (name === "end" || (key.ctrl && name === "e")) {
+      this.cursor = end;
+    } else if (key.ctrl && name === "u") {
+      this.deleteTo(start);
+    } else if (key.ctrl && name === "k") {
+      // Joins the next line when already at the end
+      this.deleteTo(this.cursor === end ? end + 1 : end);
+    } else {
+      super.edit(key);
+    }
+  }
+
+  // Keeps the column when the line is long enough
+  private moveToLine(lines: string[], line: number, column: number): void {
+    if (line < 0) {
+      this.cursor = 0;
+    } else if (line >= lines.length) {
+      this.cursor = this.value.length;
+    } else {
+      const start = lines
+        .slice(0, line)
+        .reduce((sum, text) => sum + text.length + 1, 0);
+      this.cursor = start + Math.min(column, lines[line].length);
+    }
+  }
+
+  render() {
+    const lines = this.value.split("\n");
+    const size = this.size || 40;
+    this.cursor = Math.min(this.cursor, this.value.length);
+    const { line, column } = this.getPosition();
+
+    if (line < this.top) {
+      this.top = line;
+    } else if (line >= this.top + this.rows) {
+      this.top = line - this.rows + 1;
+    }
+    this.top = Math.min(this.top, Math.max(0, lines.length - this.rows));
+    if (column < this.offset) {
+      this.offset = column;
+    } else if (column >= this.offset + size) {
+      this.offset = column - size + 1;
+    }
+    if (!this.focused) {
+      this.top = 0;
+      this.offset = 0;
+    }
+
+    const style = this.focused
+      ? this.valid
+        ? chalk.bgWhite.black
+        : chalk.bgRed.whiteBright
+      : this.valid
+        ? chalk
+        : chalk.red;
+
+    Screen.write(this.name + ":");
+    for (let row = 0; row < this.rows; row++) {
+      const index = this.top + row;
+      const placeholder = !this.value && index === 0;
+      const text = placeholder ? this.placeholder : (lines[index] ?? "");
+
+      const format = placeholder ? chalk.dim : (part: string) => part;
+      let content = text.slice(this.offset, this.offset + size).padEnd(size);
+      if (!this.focused && text.length > size) {
+        content = content.slice(0, -1) + "…";
+      }
+      if (this.focused && index === line) {
+        const at = column - this.offset;
+        content =
+          format(content.slice(0, at)) +
+          chalk.inverse(content[at]) +
+          format(content.slice(at + 1));
+      } else {
+        content = format(content);
+      }
+
+      if (row > 0) {
+        Screen.write("\n" + " ".repeat(this.indent));
+      }
+      Screen.write(
+        style(
+          (this.focused ? " " : "[") + content + (this.focused ? " " : "]"),
+        ),
+      );
+    }
+
+    if (lines.length > this.rows) {
+      Screen.write(
+        " " +
+          chalk.dim(
+            this.focused
+              ? `${line + 1}/${lines.length}`
+              : `${lines.length} lines`,
+          ),
+      );
+    }
+  }
+}
+
+type Suggestion = {
+  value: string;
+  // Shown dimmed after the value, like where it comes from
+  hint?: string;
+  // Also matched against what is typed, like the subject of a commit
+  keywords?: string;
+};
+
+/**
+ * Input listing the suggestions matching what is typed below its line. Up
+ * and down pick one and tab fills it in.
+ */
+class Autocomplete extends Input {
+  suggestions: Suggestion[] = [];
+  selected = 0;
+  limit = 5;
+  private matches: [Suggestion, FuzzyMatch][] = [];
+  // Value the matches were found for
+  private matched: string | null = null;
+
+  setSuggestions(suggestions: Suggestion[]): this {
+    this.suggestions = suggestions;
+    this.matched = null;
+    return this;
+  }
+
+  setLimit(limit: number): this {
+    this.limit = limit;
+    return this;
+  }
+
+  // Best matches first, none when the value is empty or already complete
+  getMatches(): [Suggestion, FuzzyMatch][] {
+    if (this.matched === this.value) {
+      return this.matches;
+    }
+
+    this.matched = this.value;
+    this.selected = 0;
+    this.matches = [];
+    if (!this.value) {
+      return this.matches;
+    }
+
+    for (const suggestion of this.suggestions) {
+      const match = fuzzyMatch(suggestion.value, this.value);
+      const keywords = suggestion.keywords
+        ? fuzzyMatch(suggestion.keywords, this.value)
+        : null;
+      if (match && (!keywords || match.score >= keywords.score)) {
+        this.matches.push([suggestion, match]);
+      } else if (keywords) {
+        // Nothing to highlight in the value
+        this.matches.push([suggestion, { ...keywords, indices: [] }]);
+      }
+    }
+    this.matches.sort(([, a], [, b]) => b.score - a.score);
+    if (this.matches.length === 1 && this.matches[0][0].value === this.value) {
+      this.matches = [];
+    }
+    return this.matches;
+  }
+
+  getSelected(): Suggestion | null {
+    return this.getMatches()[this.selected]?.[0] ?? null;
+  }
+
+  canAccept(): boolean {
+    const selected = this.getSelected();
+    return !!selected && selected.value !== this.value;
+  }
+
+  accept(): this {
+    const selected = this.getSelected();
+    if (selected) {
+      this.setValue(selected.value);
+    }
+    return this;
+  }
+
+  edit(key: KeyEvent): void {
+    const shown = Math.min(this.limit, this.getMatches().length);
+    if (shown && (key.name === "down" || (key.ctrl && key.name === "n"))) {
+      this.selected = Math.min(shown - 1, this.selected + 1);
+    } else if (shown && (key.name === "up" || (key.ctrl && key.name === "p"))) {
+      this.selected = Math.max(0, this.selected - 1);
+    } else {
+      super.edit(key);
+    }
+  }
+
+  hasPopup(): boolean {
+    return this.focused && this.getMatches().length > 0;
+  }
+
+  renderPopup(indent: number): void {
+    const matches = this.getMatches();
+
+    for (const [index, [suggestion, match]] of matches
+      .slice(0, this.limit)
+      .entries()) {
+      const value = highlight(suggestion.value, match.indices);
+      Screen.write(
+        " ".repeat(indent) +
+          (index === this.selected ? chalk.inverse(value) : value) +
+          (suggestion.hint ? " " + chalk.dim(suggestion.hint) : "") +
+          "\n",
+      );
+    }
+    if (matches.length > this.limit) {
+      Screen.write(
+        " ".repeat(indent) +
+          chalk.dim(`… ${matches.length - this.limit} more`) +
+          "\n",
+      );
+    }
   }
 }
 
 class Checkbox extends FormElement<boolean> {
   value = false;
   size = 3;
+  hint = "";
+
+  setHint(hint: string): this {
+    this.hint = hint;
+    return this;
+  }
 
   toggle(): this {
     this.setValue(!this.value);
@@ -134,32 +617,43 @@ class Checkbox extends FormElement<boolean> {
       (this.focused ? " " : "[") +
       (this.value ? "YES" : "NO ") +
       (this.focused ? " " : "]");
-    output.write(this.name + ":");
-    output.write(this.focused ? chalk.bgWhite.black(content) : content);
+    Screen.write(this.name + ":");
+    Screen.write(this.focused ? chalk.bgWhite.black(content) : content);
+    if (this.hint) {
+      Screen.write(" " + chalk.dim(this.hint));
+    }
   }
 }
 
-class Container {
-  elements: FormElement<string | boolean>[] = [];
+// Any element, the values they hold differ
+type Element = FormElement<any>;
+
+function getEmptyValue(element: Element) {
+  return element instanceof Checkbox ? false : "";
+}
+
+/**
+ * Lays out form elements and holds their values by element name. `T` types
+ * the values of forms with known elements.
+ */
+class Container<T extends Values = Values> {
+  elements: Element[] = [];
   focused = 0;
   breaks: Record<string, boolean> = {};
-  value: Record<string, string | boolean> = {};
-  initialValue: Record<string, string | boolean> = {};
+  value = {} as T;
+  initialValue: Partial<T> = {};
 
   hasFocus(): boolean {
     return !!this.elements[this.focused];
   }
 
-  add(
-    element: FormElement<string | boolean>,
-    { newLine = true }: { newLine?: boolean } = {},
-  ): this {
+  add(element: Element, { newLine = true }: { newLine?: boolean } = {}): this {
     if (this.elements.find((el) => el.name === element.name)) {
       return this;
     }
     this.elements.push(element);
     if (element.name in this.value === false) {
-      this.value[element.name] = element instanceof Checkbox ? false : "";
+      this.values[element.name] = getEmptyValue(element);
     }
     if (newLine) {
       this.breaks[this.elements.length - 1] = true;
@@ -178,7 +672,10 @@ class Container {
   }
 
   clear(): this {
-    this.value = {};
+    this.value = {} as T;
+    for (const element of this.elements) {
+      this.values[element.name] = getEmptyValue(element);
+    }
     return this;
   }
 
@@ -188,6 +685,7 @@ class Container {
     return this.clear().update();
   }
 
+  // False while an async validator is running
   isValid(): boolean {
     for (const element of this.elements) {
       if (!element.valid) {
@@ -198,22 +696,31 @@ class Container {
     return true;
   }
 
+  // Values by element name, for elements only known by name
+  private get values(): Values {
+    return this.value;
+  }
+
   update(): this {
     const focused = this.elements[this.focused];
 
-    App.consumeKey(Keys.TAB, () => this.focusNext());
-    App.consumeKey(Keys.SHIFT_TAB, () => this.focusPrevious());
-
-    const _getValue = () => this.value[focused.name];
+    const _getValue = () => this.values[focused.name];
     const _setValue = (value: any) => {
       if (value == null) {
         return;
       }
 
-      this.value[focused.name] = value;
+      this.values[focused.name] = value;
     };
 
-    const _getInitial = () => this.initialValue[focused.name];
+    // Tab fills in the suggestion before moving to the next element
+    if (focused instanceof Autocomplete && focused.canAccept()) {
+      App.consumeKey(Keys.TAB, () => _setValue(focused.accept().value));
+    }
+    App.consumeKey(Keys.TAB, () => this.focusNext());
+    App.consumeKey(Keys.SHIFT_TAB, () => this.focusPrevious());
+
+    const _getInitial = () => (this.initialValue as Values)[focused.name];
 
     if (focused instanceof Checkbox) {
       App.consumeKey(Keys.SPACE, () => {
@@ -221,44 +728,55 @@ class Container {
       });
     } else if (focused instanceof Input) {
       App.consumeAnyKey((key) => {
-        const value = _getValue() || "";
-
-        if (/[\w -/]/.test(key)) {
-          _setValue(value + key);
-        } else if (key === Keys.BACKSPACE) {
-          _setValue((value as string).slice(0, -1));
-        }
+        focused.setValue((_getValue() as string) || "");
+        focused.edit(key);
+        _setValue(focused.value);
       });
     } else if (focused instanceof Select) {
       if (!_getValue()) {
         _setValue(_getInitial() ?? focused.options[0]?.id ?? "");
       }
 
-      if (!focused.options.length) {
-        return this;
-      }
+      if (focused.expanded) {
+        App.consumeKey(Keys.ENTER, () => {
+          const option = focused.getHighlighted();
+          if (option) {
+            _setValue(option.id);
+          }
+          focused.collapse();
+        });
+        App.consumeKey(Keys.ESC, () => focused.collapse());
+        App.consumeAnyKey((key) => focused.edit(key));
+      } else if (focused.options.length) {
+        App.consumeKey(Keys.SPACE, () => focused.expand());
 
-      App.consumeKey("r", () => _setValue(_getInitial() ?? ""));
+        App.consumeKey("r", () => _setValue(_getInitial() ?? ""));
 
-      App.consumeKey("j", () => {
-        const nextIndex = Math.min(
-          focused.options.length - 1,
-          focused.options.findIndex((option) => option.id === _getValue()) + 1,
-        );
-        _setValue(focused.options[nextIndex].id);
-      });
+        App.consumeKey("j", () => {
+          const nextIndex = Math.min(
+            focused.options.length - 1,
+            focused.options.findIndex((option) => option.id === _getValue()) +
+              1,
+          );
+          _setValue(focused.options[nextIndex].id);
+        });
 
-      App.consumeKey("k", () => {
-        const nextIndex = Math.max(
-          0,
-          focused.options.findIndex((option) => option.id === _getValue()) - 1,
-        );
-        _setValue(focused.options[nextIndex].id);
-      });
+        App.consumeKey("k", () => {
+          const nextIndex = Math.max(
+            0,
+            focused.options.findIndex((option) => option.id === _getValue()) -
+              1,
+          );
+          _setValue(focused.options[nextIndex].id);
+        });
+      }
     }
 
     for (const element of this.elements) {
-      element.setValue(this.value[element.name]);
+      element.setValue(this.values[element.name]);
+    }
+    for (const element of this.elements) {
+      element.validate(this.value);
     }
 
     return this;
@@ -274,6 +792,10 @@ class Container {
       }
     }
 
+    // Elements of the line being rendered, their errors and the popup of the
+    // focused one go below it
+    let line: Element[] = [];
+
     for (let i = 0; i < this.elements.length; i++) {
       const element = this.elements[i];
 
@@ -284,12 +806,27 @@ class Container {
       }
 
       const nameSize = stripAnsi(element.name).length;
-      output.write(" ".repeat(size + 1 - nameSize));
+      Screen.write(" ".repeat(size + 1 - nameSize));
 
+      element.indent = size + 2;
       element.render();
-      if (this.breaks[i]) {
-        output.write("\n");
+      line.push(element);
+
+      const errors = line.filter((element) => element.error);
+      const popup = line.find((element) => element.hasPopup());
+      const isLast = i === this.elements.length - 1;
+      if (!this.breaks[i] && !(isLast && (errors.length || popup))) {
+        continue;
       }
+
+      Screen.write("\n");
+      // Lined up with the values, after the name, colon and padding
+      const indent = " ".repeat(size + 3);
+      for (const element of errors) {
+        Screen.write(indent + chalk.red(element.error) + "\n");
+      }
+      popup?.renderPopup(size + 3);
+      line = [];
     }
   }
 }
@@ -297,12 +834,90 @@ class Container {
 type SelectOption = {
   id: string;
   label: string;
+  // Shown dimmed after the label when expanded
+  description?: string;
+  // Hex background of the label when expanded
+  color?: string;
+  // Options are listed under the name of their group when expanded
+  group?: string;
 };
 
+/**
+ * Picks one of the options, j and k go through them in place. Space expands
+ * it into a list below its line, filtered by what is typed, where up and
+ * down move, enter picks and escape closes it.
+ */
 class Select extends FormElement<string> {
   options: SelectOption[] = [];
   value = "";
   minSize = 30;
+  expanded = false;
+  // Rows of options and group names shown at once when expanded
+  limit = 8;
+  filter = new Input().setName("filter").setPlaceholder("type to filter");
+  // Index in the matches of the option picked by enter
+  highlighted = 0;
+  private viewport = new Viewport();
+
+  setLimit(limit: number): this {
+    this.limit = limit;
+    return this;
+  }
+
+  expand(): this {
+    this.expanded = true;
+    this.filter.setValue("");
+    this.highlighted = Math.max(
+      0,
+      this.options.findIndex((option) => option.id === this.value),
+    );
+    return this;
+  }
+
+  collapse(): this {
+    this.expanded = false;
+    return this;
+  }
+
+  blur(): this {
+    this.collapse();
+    return super.blur();
+  }
+
+  // Options matching the filter, in their order to keep groups together
+  getMatches(): [SelectOption, FuzzyMatch | null][] {
+    if (!this.filter.value) {
+      return this.options.map((option) => [option, null]);
+    }
+
+    const matches: [SelectOption, FuzzyMatch | null][] = [];
+    for (const option of this.options) {
+      const match = fuzzyMatch(option.label, this.filter.value);
+      if (match) {
+        matches.push([option, match]);
+      }
+    }
+    return matches;
+  }
+
+  getHighlighted(): SelectOption | null {
+    return this.getMatches()[this.highlighted]?.[0] ?? null;
+  }
+
+  edit(key: KeyEvent): void {
+    const count = this.getMatches().length;
+    if (key.name === "down" || (key.ctrl && key.name === "n")) {
+      this.highlighted = Math.min(count - 1, this.highlighted + 1);
+    } else if (key.name === "up" || (key.ctrl && key.name === "p")) {
+      this.highlighted = Math.max(0, this.highlighted - 1);
+    } else {
+      const filter = this.filter.value;
+      this.filter.edit(key);
+      if (this.filter.value !== filter) {
+        this.highlighted = 0;
+      }
+    }
+  }
 
   setMinSize(value: number): this {
     this.minSize = value;
@@ -337,6 +952,61 @@ class Select extends FormElement<string> {
     return this.name || "select";
   }
 
+  hasPopup(): boolean {
+    return this.focused && this.expanded;
+  }
+
+  renderPopup(indent: number): void {
+    const pad = " ".repeat(indent);
+    Screen.write(pad);
+    this.filter.focus().render();
+    Screen.write("\n");
+
+    const matches = this.getMatches();
+    if (!matches.length) {
+      Screen.write(pad + chalk.dim("no matches") + "\n");
+      return;
+    }
+
+    const rows: string[] = [];
+    let selected = 0;
+    let group: string | undefined;
+    for (const [index, [option, match]] of matches.entries()) {
+      if (option.group && option.group !== group) {
+        rows.push(chalk.dim(option.group));
+      }
+      group = option.group;
+
+      if (index === this.highlighted) {
+        selected = rows.length;
+      }
+      const label = ` ${highlight(option.label, match?.indices ?? [])} `;
+      rows.push(
+        (index === this.highlighted ? "› " : "  ") +
+          (option.color ? chalk.bgHex(option.color).black(label) : label) +
+          (option.id === this.value ? " ✓" : "") +
+          (option.description ? " " + chalk.dim(option.description) : ""),
+      );
+    }
+
+    const { start, end } = this.viewport.update(
+      rows.map(() => 1),
+      selected,
+      this.limit,
+    );
+    const top = this.viewport.getTop();
+    if (top != null) {
+      Screen.write(pad + top + "\n");
+    }
+    for (const row of rows.slice(start, end)) {
+      Screen.write(pad + row + "\n");
+    }
+    const bottom = this.viewport.getBottom();
+    if (bottom != null) {
+      Screen.write(pad + bottom + "\n");
+    }
+  }
+
   render(): void {
     const selected = this.getSelectedOption();
     const size = this.getSize();
@@ -350,8 +1020,8 @@ class Select extends FormElement<string> {
       " ▾" +
       (this.focused ? " " : "]");
 
-    output.write(this.getName() + ":");
-    output.write(
+    Screen.write(this.getName() + ":");
+    Screen.write(
       this.focused
         ? this.options.length
           ? chalk.inverse(content)
@@ -364,6 +1034,8 @@ class Select extends FormElement<string> {
 export const Form = {
   Container,
   Input,
+  TextArea,
+  Autocomplete,
   Checkbox,
   Select,
 };
@@ -0,0 +1,348 @@
+import { ProcessTerminal, type Terminal } from "./terminal.ts";
+
+const CSI = "\u001B[";
+const ALT_SCREEN_ON = CSI + "?1049h";
+const ALT_SCREEN_OFF = CSI + "?1049l";
+const HIDE_CURSOR = CSI + "?25l";
+const SHOW_CURSOR = CSI + "?25h";
+const CLEAR_SCREEN = CSI + "2J";
+const RESET_STYLE = CSI + "0m";
+
+// Matches SGR sequences (colors and text styles), the only escapes
+// components are expected to write
+const SGR = /^\u001B\[([\d;]*)m/;
+
+type Cell = {
+  // Empty for the second half of wide characters
+  char: string;
+  style: string;
+};
+
+type Frame = Cell[][];
+
+// Order in which the style attributes are serialized, so the same style
+// always produces the same string
+const ATTRIBUTES = [
+  "bold",
+  "dim",
+  "italic",
+  "underline",
+  "inverse",
+  "hidden",
+  "strike",
+  "fg",
+  "bg",
+] as const;
+
+type Attribute = (typeof ATTRIBUTES)[number];
+
+type StyleState = Partial<Record<Attribute, string>>;
+
+const SET: Record<number, Attribute> = {
+  1: "bold",
+  2: "dim",
+  3: "italic",
+  4: "underline",
+  7: "inverse",
+  8: "hidden",
+  9: "strike",
+};
+
+const UNSET: Record<number, Attribute[]> = {
+  22: ["bold", "dim"],
+  23: ["italic"],
+  24: ["underline"],
+  27: ["inverse"],
+  28: ["hidden"],
+  29: ["strike"],
+  39: ["fg"],
+  49: ["bg"],
+};
+
+function applySgr(state: StyleState, params: string): void {
+  const codes = params === "" ? [0] : params.split(";").map(Number);
+
+  for (let i = 0; i < codes.length; i++) {
+    const code = codes[i];
+
+    if (code === 0) {
+      for (const attribute of ATTRIBUTES) delete state[attribute];
+    } else if (SET[code]) {
+      state[SET[code]] = String(code);
+    } else if (UNSET[code]) {
+      for (const attribute of UNSET[code]) delete state[attribute];
+    } else if (code === 38 || code === 48) {
+      // 256 colors take one extra parameter and true colors take three
+      const length = codes[i + 1] === 5 ? 2 : 4;
+      const color = codes.slice(i, i + length + 1).join(";");
+      state[code === 38 ? "fg" : "bg"] = color;
+      i += length;
+    } else if ((code >= 30 && code <= 37) || (code >= 90 && code <= 97)) {
+      state.fg = String(code);
+    } else if ((code >= 40 && code <= 47) || (code >= 100 && code <= 107)) {
+      state.bg = String(code);
+    }
+  }
+}
+
+function serialize(state: StyleState): string {
+  return ATTRIBUTES.map((attribute) => state[attribute])
+    .filter(Boolean)
+    .join(";");
+}
+
+function charWidth(char: string): number {
+  const code = char.codePointAt(0) ?? 0;
+  // Combining marks are drawn over the previous character
+  if (code >= 0x300 && code <= 0x36f) return 0;
+  if (
+    (code >= 0x1100 && code <= 0x115f) ||
+    (code >= 0x2e80 && code <= 0xa4cf) ||
+    (code >= 0xac00 && code <= 0xd7a3) ||
+    (code >= 0xf900 && code <= 0xfaff) ||
+    (code >= 0xfe30 && code <= 0xfe4f) ||
+    (code >= 0xff00 && code <= 0xff60) ||
+    (code >= 0xffe0 && code <= 0xffe6) ||
+    code >= 0x1f300
+  ) {
+    return 2;
+  }
+  return 1;
+}
+
+function createFrame(columns: number, rows: number): Frame {
+  return Array.from({ length: rows }, () =>
+    Array.from({ length: columns }, () => ({ char: " ", style: "" })),
+  );
+}
+
+/**
+ * Walks the written text the way the terminal would lay it out, wrapping
+ * long lines, and returns the row the next character goes on.
+ */
+function layout(
+  text: string,
+  columns: number,
+  rows: number,
+  put: (row: number, column: number, cell: Cell, width: number) => void,
+  combine: (row: number, column: number, char: string) => void,
+): number {
+  const state: StyleState = {};
+  let row = 0;
+  let column = 0;
+  let index = 0;
+
+  while (index < text.length && row < rows) {
+    if (text[index] === "\u001B") {
+      const match = text.slice(index).match(SGR);
+      if (match) {
+        applySgr(state, match[1]);
+        index += match[0].length;
+      } else {
+        index++;
+      }
+      continue;
+    }
+
+    const char = String.fromCodePoint(text.codePointAt(index) ?? 32);
+    index += char.length;
+
+    if (char === "\n") {
+      row++;
+      column = 0;
+      continue;
+    }
+
+    const width = char === "\t" ? 1 : charWidth(char);
+    if (width === 0) {
+      if (column > 0) combine(row, column - 1, char);
+      continue;
+    }
+
+    if (column + width > columns) {
+      row++;
+      column = 0;
+      if (row >= rows) break;
+    }
+
+    const style = serialize(state);
+    put(row, column, { char: char === "\t" ? " " : char, style }, width);
+    column += width;
+  }
+
+  return row;
+}
+
+/**
+ * Lays the written text out in a grid the size of the terminal, dropping
+ * rows that don't fit.
+ */
+function parseFrame(text: string, columns: number, rows: number): Frame {
+  const frame = createFrame(columns, rows);
+  layout(
+    text,
+    columns,
+    rows,
+    (row, column, cell, width) => {
+      frame[row][column] = cell;
+      if (width === 2) {
+        frame[row][column + 1] = { char: "", style: cell.style };
+      }
+    },
+    (row, column, char) => {
+      frame[row][column].char += char;
+    },
+  );
+  return frame;
+}
+
+function moveTo(row: number, column: number): string {
+  return `${CSI}${row + 1};${column + 1}H`;
+}
+
+export const Screen: {
+  terminal: Terminal;
+  readonly columns: number;
+  readonly rows: number;
+  // Row the next write starts on, for components filling the space left
+  readonly line: number;
+  _frame: string;
+  _previous: Frame | null;
+  _renderer: (() => void) | null;
+  _scheduled: boolean;
+  _rendering: boolean;
+  _changed: boolean;
+  start(renderer: () => void): void;
+  stop(): void;
+  write(text: string): void;
+  requestRender(): void;
+  render(): void;
+  invalidate(): void;
+  flush(): void;
+} = {
+  terminal: ProcessTerminal,
+  get columns() {
+    return this.terminal.columns;
+  },
+  get rows() {
+    return this.terminal.rows;
+  },
+  get line() {
+    const noop = () => {};
+    return layout(this._frame, this.columns, Infinity, noop, noop);
+  },
+  _frame: "",
+  _previous: null,
+  _renderer: null,
+  _scheduled: false,
+  _rendering: false,
+  _changed: false,
+
+  start(renderer) {
+    this._renderer = renderer;
+    this._previous = null;
+    this.terminal.write(ALT_SCREEN_ON + HIDE_CURSOR);
+    this.terminal.onResize(() => {
+      this.invalidate();
+      this.requestRender();
+    });
+    this.render();
+  },
+
+  stop() {
+    this._renderer = null;
+    this.terminal.write(RESET_STYLE + SHOW_CURSOR + ALT_SCREEN_OFF);
+  },
+
+  write(text) {
+    this._frame += text;
+  },
+
+  requestRender() {
+    // Changes made by the renderer itself are picked up in render()
+    if (this._rendering) {
+      this._changed = true;
+      return;
+    }
+    if (this._scheduled || !this._renderer) {
+      return;
+    }
+    this._scheduled = true;
+    setImmediate(() => {
+      this._scheduled = false;
+      this.render();
+    });
+  },
+
+  render() {
+    if (!this._renderer) {
+      return;
+    }
+
+    // A second pass shows state changed while rendering (e.g. a status set
+    // by a page), without letting a page keep the screen redrawing forever
+    for (let pass = 0; pass < 2; pass++) {
+      this._frame = "";
+      this._changed = false;
+      this._rendering = true;
+      try {
+        this._renderer();
+      } finally {
+        this._rendering = false;
+      }
+      if (!this._changed) break;
+    }
+
+    this.flush();
+  },
+
+  invalidate() {
+    this._previous = null;
+  },
+
+  flush() {
+    const columns = this.columns;
+    const rows = this.rows;
+    const next = parseFrame(this._frame, columns, rows);
+    const previous =
+      this._previous?.length === rows && this._previous[0]?.length === columns
+        ? this._previous
+        : null;
+
+    let out = previous ? "" : CLEAR_SCREEN;
+    let style: string | null = null;
+    let cursor: [number, number] | null = null;
+
+    for (let row = 0; row < rows; row++) {
+      for (let column = 0; column < columns; column++) {
+        const cell = next[row][column];
+        const before = previous?.[row][column];
+
+        if (!cell.char) continue;
+        if (before) {
+          if (before.char === cell.char && before.style === cell.style) {
+            continue;
+          }
+        } else if (cell.char === " " && !cell.style) {
+          // The screen was just cleared
+          continue;
+        }
+
+        if (cursor?.[0] !== row || cursor[1] !== column) {
+          out += moveTo(row, column);
+        }
+        if (cell.style !== style) {
+          out += cell.style ? `${CSI}0;${cell.style}m` : RESET_STYLE;
+          style = cell.style;
+        }
+        out += cell.char;
+        cursor = [row, column + charWidth(cell.char)];
+      }
+    }
+
+    if (out) {
+      this.terminal.write(out + RESET_STYLE);
+    }
+    this._previous = next;
+  },
+};
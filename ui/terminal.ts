@@ -0,0 +1,52 @@
+import { stdin, stdout } from "node:process";
+
+// Pasted text is wrapped in markers instead of arriving as typed keys
+const PASTE_ON = "\u001B[?2004h";
+const PASTE_OFF = "\u001B[?2004l";
+
+/**
+ * Where the app draws and reads keys from. The process terminal is used by
+ * default, tests swap in a fake one through `Screen.terminal`.
+ */
+export type Terminal = {
+  readonly columns: number;
+  readonly rows: number;
+  write(text: string): void;
+  onResize(listener: () => void): void;
+  onData(listener: (data: string) => void): void;
+  // Starts delivering keys as they are typed
+  open(): void;
+  close(): void;
+};
+
+export const ProcessTerminal: Terminal = {
+  get columns() {
+    return stdout.columns || 80;
+  },
+  get rows() {
+    return stdout.rows || 24;
+  },
+  write(text) {
+    stdout.write(text);
+  },
+  onResize(listener) {
+    stdout.on("resize", listener);
+  },
+  onData(listener) {
+    stdin.on("data", (data) => listener(String(data)));
+  },
+  open() {
+    stdin.setRawMode(true);
+    // Keeps characters cut between chunks whole
+    stdin.setEncoding("utf8");
+    stdin.resume();
+    stdout.write(PASTE_ON);
+  },
+  close() {
+    if (stdin.isTTY) {
+      stdin.setRawMode(false);
+      stdout.write(PASTE_OFF);
+    }
+    stdin.pause();
+  },
+};
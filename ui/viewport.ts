@@ -0,0 +1,103 @@
+import chalk from "chalk";
+import { Screen } from "./screen.ts";
+
+type Range = {
+  start: number;
+  end: number;
+};
+
+/**
+ * Window over a list taller than the space left on screen. It scrolls only
+ * as much as needed to keep the selected item visible, and reserves a row
+ * above and below the items for the scroll indicators.
+ */
+export class Viewport {
+  offset = 0;
+  // Items shown in the last update, the size of a page
+  visible = 0;
+  count = 0;
+  private range: Range = { start: 0, end: 0 };
+
+  /**
+   * Picks the items to render given the rows each one takes and the rows
+   * available, which change with the terminal size.
+   */
+  update(heights: number[], selected: number, size: number): Range {
+    const count = heights.length;
+    const total = heights.reduce((sum, height) => sum + height, 0);
+    this.count = count;
+
+    if (total <= size) {
+      this.offset = 0;
+      return this.setRange(0, count);
+    }
+
+    const space = Math.max(1, size - 2);
+    const target = Math.max(0, Math.min(selected, count - 1));
+    let offset = Math.max(0, Math.min(this.offset, count - 1));
+
+    if (target < offset) {
+      offset = target;
+    }
+    const sum = (start: number, end: number) =>
+      heights.slice(start, end).reduce((sum, height) => sum + height, 0);
+    while (offset < target && sum(offset, target + 1) > space) {
+      offset++;
+    }
+
+    let end = offset;
+    let used = 0;
+    while (end < count && used + heights[end] <= space) {
+      used += heights[end];
+      end++;
+    }
+    // Fills the space left at the bottom, after a resize or when the list
+    // got shorter
+    while (end === count && offset > 0 && used + heights[offset - 1] <= space) {
+      offset--;
+      used += heights[offset];
+    }
+
+    this.offset = offset;
+    return this.setRange(offset, Math.max(end, offset + 1));
+  }
+
+  isScrolled(): boolean {
+    return this.range.start > 0 || this.range.end < this.count;
+  }
+
+  // Indicator above the items, null when the list doesn't scroll
+  getTop(): string | null {
+    return this.isScrolled() ? this.getIndicator("↑", this.range.start) : null;
+  }
+
+  getBottom(): string | null {
+    return this.isScrolled()
+      ? this.getIndicator("↓", this.count - this.range.end)
+      : null;
+  }
+
+  renderTop(): void {
+    this.renderIndicator(this.getTop());
+  }
+
+  renderBottom(): void {
+    this.renderIndicator(this.getBottom());
+  }
+
+  private getIndicator(arrow: string, hidden: number): string {
+    return chalk.dim(hidden ? ` ${arrow} ${hidden} more` : "");
+  }
+
+  private renderIndicator(indicator: string | null): void {
+    if (indicator != null) {
+      Screen.write(indicator + "\n");
+    }
+  }
+
+  private setRange(start: number, end: number): Range {
+    this.range = { start, end };
+    this.visible = end - start;
+    return this.range;
+  }
+}
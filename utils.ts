@@ -1,31 +1,44 @@
-import { basename } from "node:path";
-import { stdout } from "node:process";
+import { basename, isAbsolute, relative, sep } from "node:path";
+import { pathToFileURL } from "node:url";
 import sliceAnsi from "slice-ansi";
+import stripAnsi from "strip-ansi";
 import chalk from "chalk";
+import { Screen } from "./ui/screen.ts";
 
 export function getTaskFromPath(path: string): string {
   return basename(path);
 }
 
-export function isTask(branch: string): boolean {
-  return (
-    /^[\w\d]+$/.test(branch) &&
-    ["master", "solo-", "mob-", "fix-", "feat"].find((match) =>
-      branch.includes(match),
-    ) == null
-  );
+// Whether `path` is `folder` or somewhere under it, `foo-bar` isn't in `foo`
+export function isInside(path: string, folder: string): boolean {
+  const rest = relative(folder, path);
+  return rest !== ".." && !rest.startsWith(".." + sep) && !isAbsolute(rest);
 }
 
 const TRUNCATE_CHAR = "…";
 export function truncate(text: string, size: number): string {
-  const truncated = sliceAnsi(text, 0, size - 1);
-  return truncated.length < text.length
-    ? truncated + chalk.dim(TRUNCATE_CHAR)
-    : text;
+  if (stripAnsi(text).length <= size) {
+    return text;
+  }
+  return sliceAnsi(text, 0, size - 1) + chalk.dim(TRUNCATE_CHAR);
+}
+
+// Splits plain text into lines of at most `size`, breaking between words
+export function wrap(text: string, size: number): string[] {
+  const lines: string[] = [];
+  let line = "";
+  for (const word of text.split(/\s+/).filter(Boolean)) {
+    if (line && line.length + 1 + word.length > size) {
+      lines.push(line);
+      line = "";
+    }
+    line = line ? `${line} ${word}` : word;
+  }
+  return line ? [...lines, line] : lines;
 }
 
 export function getColumns(): number {
-  return stdout.columns - 1;
+  return Screen.columns - 1;
 }
 
 const _running: Record<string, boolean> = {};
@@ -34,8 +47,133 @@ export function runOnce(id: string, cb: (resolve: () => void) => void) {
   if (_running[id]) {
     return;
   }
+  _running[id] = true;
   function resolve() {
     delete _running[id];
   }
   cb(resolve);
 }
+
+const AGE_UNITS: [string, number][] = [
+  ["y", 365 * 24 * 60 * 60 * 1000],
+  ["w", 7 * 24 * 60 * 60 * 1000],
+  ["d", 24 * 60 * 60 * 1000],
+  ["h", 60 * 60 * 1000],
+  ["m", 60 * 1000],
+];
+
+export function formatAge(timestamp: number, now = Date.now()): string {
+  const elapsed = Math.max(0, now - timestamp);
+  for (const [unit, size] of AGE_UNITS) {
+    if (elapsed >= size) {
+      return `${Math.floor(elapsed / size)}${unit}`;
+    }
+  }
+  return "now";
+}
+
+export type FuzzyMatch = {
+  score: number;
+  // Positions of the matched characters in the text
+  indices: number[];
+};
+
+/**
+ * Matches `query` against `text` as a subsequence, scoring consecutive
+ * characters and word starts higher. Returns null when not matched.
+ */
+export function fuzzyMatch(text: string, query: string): FuzzyMatch | null {
+  const haystack = text.toLowerCase();
+  const needle = query.toLowerCase().replace(/\s+/g, "");
+  const indices: number[] = [];
+  if (!needle) {
+    return { score: 0, indices };
+  }
+
+  let score = 0;
+  let last = -1;
+  for (const char of needle) {
+    const index = haystack.indexOf(char, last + 1);
+    if (index === -1) {
+      return null;
+    }
+    score += 1;
+    if (index === last + 1) {
+      score += 2;
+    }
+    if (index === 0 || /[\s\-_/]/.test(haystack[index - 1])) {
+      score += 3;
+    }
+    indices.push(index);
+    last = index;
+  }
+
+  return { score, indices };
+}
+
+export function fuzzyScore(text: string, query: string): number | null {
+  return fuzzyMatch(text, query)?.score ?? null;
+}
+
+// Underlines the characters at the given positions
+export function highlight(text: string, indices: number[]): string {
+  if (!indices.length) {
+    return text;
+  }
+  return text
+    .split("")
+    .map((char, index) =>
+      indices.includes(index) ? chalk.underline.bold(char) : char,
+    )
+    .join("");
+}
+
+export type DiffLine = {
+  type: "same" | "added" | "removed";
+  line: string;
+};
+
+// Line diff of two texts, from their longest common subsequence
+export function diffLines(before: string, after: string): DiffLine[] {
+  const a = before ? before.split("\n") : [];
+  const b = after ? after.split("\n") : [];
+
+  // Length of the common subsequence of a[i..] and b[j..]
+  const common = Array.from({ length: a.length + 1 }, () =>
+    new Array<number>(b.length + 1).fill(0),
+  );
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      common[i][j] =
+        a[i] === b[j]
+          ? common[i + 1][j + 1] + 1
+          : Math.max(common[i + 1][j], common[i][j + 1]);
+    }
+  }
+
+  const lines: DiffLine[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length || j < b.length) {
+    if (i < a.length && j < b.length && a[i] === b[j]) {
+      lines.push({ type: "same", line: a[i] });
+      i++;
+      j++;
+    } else if (
+      i < a.length &&
+      (j === b.length || common[i + 1][j] >= common[i][j + 1])
+    ) {
+      lines.push({ type: "removed", line: a[i] });
+      i++;
+    } else {
+      lines.push({ type: "added", line: b[j] });
+      j++;
+    }
+  }
+  return lines;
+}
+
+// Whether the module with this `import.meta.url` was the one run by node
+export function isMain(url: string): boolean {
+  return !!process.argv[1] && pathToFileURL(process.argv[1]).href === url;
+}